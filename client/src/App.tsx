@@ -3,13 +3,20 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
+import MatchLibrary from "@/pages/match-library";
 import MultiCamViewer from "@/pages/multicam-viewer";
+import SharedMatchPage from "@/pages/shared-match";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={MultiCamViewer} />
+      <Route path="/" component={MatchLibrary} />
+      <Route path="/matches/:id" component={MultiCamViewer} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/share/:token" component={SharedMatchPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +25,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
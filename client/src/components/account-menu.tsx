@@ -0,0 +1,43 @@
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { LogIn, LogOut, User } from "lucide-react";
+
+// Who is watching, with a way to sign in or out
+export function AccountMenu() {
+  const { user, isLoading, logoutMutation } = useAuth();
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <Button variant="ghost" size="sm" asChild data-testid="link-sign-in">
+        <Link href="/auth">
+          <LogIn className="w-4 h-4 mr-2" />
+          Sign in
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <span
+        className="flex items-center gap-1.5 text-sm text-muted-foreground"
+        data-testid="text-username"
+      >
+        <User className="w-4 h-4" />
+        {user.username}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={logoutMutation.isPending}
+        onClick={() => logoutMutation.mutate()}
+        title="Sign out"
+        data-testid="button-sign-out"
+      >
+        <LogOut className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
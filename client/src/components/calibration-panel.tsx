@@ -0,0 +1,270 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  AudioWaveform,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  RotateCcw,
+  Save,
+} from "lucide-react";
+import { cameraFps } from "@/lib/camera-time";
+import type { MatchCamera, MatchWithCameras, SyncJob } from "@shared/schema";
+
+function formatOffset(offset: number): string {
+  const sign = offset < 0 ? "-" : "+";
+  return `${sign}${Math.abs(offset).toFixed(3)}s`;
+}
+
+interface CalibrationPanelProps {
+  match: MatchWithCameras;
+  draftOffsets: Record<MatchCamera["id"], number>;
+  onNudge: (cameraId: MatchCamera["id"], delta: number) => void;
+  onReset: (cameraId: MatchCamera["id"]) => void;
+}
+
+export function CalibrationPanel({
+  match,
+  draftOffsets,
+  onNudge,
+  onReset,
+}: CalibrationPanelProps) {
+  const { toast } = useToast();
+  const syncQueryKey = ["/api/matches", match.id, "sync"];
+
+  const { data: syncJob } = useQuery<SyncJob | null>({
+    queryKey: syncQueryKey,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? 1000 : false;
+    },
+  });
+  const isSyncing =
+    syncJob?.status === "pending" || syncJob?.status === "running";
+
+  const startSync = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/matches/${match.id}/sync`);
+      return (await res.json()) as SyncJob;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData(syncQueryKey, job);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not start audio sync",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Apply the offsets of a job we watched finish. Jobs that had already
+  // finished before the panel opened are ignored so they cannot discard
+  // the operator's unsaved nudges.
+  const watchedJobRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!syncJob) return;
+    if (isSyncing) {
+      watchedJobRef.current = syncJob.id;
+      return;
+    }
+    if (watchedJobRef.current !== syncJob.id) return;
+    watchedJobRef.current = null;
+
+    if (syncJob.status === "completed") {
+      const results = new Map(syncJob.results.map((r) => [r.cameraId, r]));
+      queryClient.setQueryData<MatchWithCameras>(
+        ["/api/matches", match.id],
+        (old) =>
+          old && {
+            ...old,
+            cameras: old.cameras.map((c) => {
+              const result = results.get(c.id);
+              return result
+                ? {
+                    ...c,
+                    offset: result.offset,
+                    syncConfidence: result.confidence,
+                  }
+                : c;
+            }),
+          },
+      );
+      results.forEach((_result, cameraId) => onReset(cameraId));
+    } else if (syncJob.status === "failed") {
+      toast({
+        title: "Audio sync failed",
+        description: syncJob.error ?? undefined,
+        variant: "destructive",
+      });
+    }
+  }, [syncJob, isSyncing, match.id, onReset, toast]);
+
+  const saveOffset = useMutation({
+    mutationFn: async ({ id, offset }: { id: string; offset: number }) => {
+      const res = await apiRequest(
+        "PATCH",
+        `/api/matches/${match.id}/cameras/${id}`,
+        { offset },
+      );
+      return (await res.json()) as MatchCamera;
+    },
+    onSuccess: (camera) => {
+      // Write the saved camera straight into the cache so the draft can be
+      // dropped without the angle jumping back to its old offset
+      queryClient.setQueryData<MatchWithCameras>(
+        ["/api/matches", match.id],
+        (old) =>
+          old && {
+            ...old,
+            cameras: old.cameras.map((c) => (c.id === camera.id ? camera : c)),
+          },
+      );
+      onReset(camera.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save offset",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-calibration"
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Sync calibration
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        Pause on a ball impact, then nudge each angle frame by frame until the
+        impact lines up across all views. Auto-sync lines the angles up from
+        their audio tracks as a starting point.
+      </p>
+
+      <div className="flex items-center gap-3 mb-3">
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={
+            isSyncing || startSync.isPending || match.cameras.length < 2
+          }
+          onClick={() => startSync.mutate()}
+          data-testid="button-auto-sync"
+        >
+          <AudioWaveform className="w-4 h-4 mr-2" />
+          Auto-sync from audio
+        </Button>
+        {isSyncing && (
+          <>
+            <Progress
+              value={(syncJob?.progress ?? 0) * 100}
+              className="h-2 flex-1"
+              data-testid="progress-auto-sync"
+            />
+            <span className="text-xs font-mono text-muted-foreground">
+              {Math.round((syncJob?.progress ?? 0) * 100)}%
+            </span>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {match.cameras.map((camera) => {
+          const isDirty = camera.id in draftOffsets;
+          const offset = isDirty ? draftOffsets[camera.id] : camera.offset;
+          // Nudges move by one frame of the camera's own footage
+          const frameSeconds = 1 / cameraFps(camera);
+
+          return (
+            <div
+              key={camera.id}
+              className="flex items-center gap-2"
+              data-testid={`row-calibration-${camera.id}`}
+            >
+              <span className="flex-1 min-w-0 truncate text-sm font-medium">
+                {camera.label}
+              </span>
+              {camera.syncConfidence !== null && (
+                <span
+                  className="text-xs font-mono text-muted-foreground"
+                  title="Audio auto-sync confidence"
+                  data-testid={`text-sync-confidence-${camera.id}`}
+                >
+                  {Math.round(camera.syncConfidence * 100)}%
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onNudge(camera.id, -10 * frameSeconds)}
+                data-testid={`button-nudge-back-10-${camera.id}`}
+              >
+                <ChevronsLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onNudge(camera.id, -frameSeconds)}
+                data-testid={`button-nudge-back-${camera.id}`}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span
+                className={`min-w-[72px] text-center text-xs font-mono ${
+                  isDirty ? "text-primary" : "text-muted-foreground"
+                }`}
+                data-testid={`text-offset-${camera.id}`}
+              >
+                {formatOffset(offset)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onNudge(camera.id, frameSeconds)}
+                data-testid={`button-nudge-forward-${camera.id}`}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onNudge(camera.id, 10 * frameSeconds)}
+                data-testid={`button-nudge-forward-10-${camera.id}`}
+              >
+                <ChevronsRight className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!isDirty}
+                onClick={() => onReset(camera.id)}
+                data-testid={`button-reset-offset-${camera.id}`}
+              >
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                disabled={!isDirty || saveOffset.isPending}
+                onClick={() => saveOffset.mutate({ id: camera.id, offset })}
+                data-testid={`button-save-offset-${camera.id}`}
+              >
+                <Save className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
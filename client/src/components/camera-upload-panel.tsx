@@ -0,0 +1,152 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useCameraUpload } from "@/hooks/use-camera-upload";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Upload as UploadIcon } from "lucide-react";
+import type {
+  MatchCamera,
+  MatchWithCameras,
+  TranscodeJob,
+} from "@shared/schema";
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+function CameraUploadRow({ camera }: { camera: MatchCamera }) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { upload, progress, isUploading, error, start } = useCameraUpload(
+    camera.matchId,
+    camera.id,
+  );
+
+  const { data: transcodeJob } = useQuery<TranscodeJob | null>({
+    queryKey: [
+      "/api/matches",
+      camera.matchId,
+      "cameras",
+      camera.id,
+      "transcode",
+    ],
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? 2000 : false;
+    },
+  });
+  const isTranscoding =
+    transcodeJob?.status === "pending" || transcodeJob?.status === "running";
+
+  // Pick up the published manifest once a transcode we watched finishes
+  const wasTranscodingRef = useRef(false);
+  useEffect(() => {
+    if (isTranscoding) {
+      wasTranscodingRef.current = true;
+    } else if (wasTranscodingRef.current) {
+      wasTranscodingRef.current = false;
+      queryClient.invalidateQueries({
+        queryKey: ["/api/matches", camera.matchId],
+        exact: true,
+      });
+    }
+  }, [isTranscoding, camera.matchId]);
+
+  useEffect(() => {
+    if (!error) return;
+    toast({
+      title: `Upload failed for ${camera.label}`,
+      description: error.message,
+      variant: "destructive",
+    });
+  }, [error, camera.label, toast]);
+
+  // An unfinished upload can be resumed by picking the same file again
+  const isResumable = !isUploading && upload?.status === "uploading";
+
+  let status: string | null = null;
+  if (isUploading || isResumable) {
+    status = `${formatBytes(upload?.offset ?? 0)} / ${formatBytes(upload?.size ?? 0)}`;
+  } else if (isTranscoding) {
+    status = `Transcoding ${Math.round((transcodeJob?.progress ?? 0) * 100)}%`;
+  } else if (transcodeJob?.status === "failed") {
+    status = "Transcode failed";
+  } else if (camera.manifestSrc) {
+    status = "Adaptive stream ready";
+  }
+
+  return (
+    <div className="flex flex-col gap-1" data-testid={`row-upload-${camera.id}`}>
+      <div className="flex items-center gap-2">
+        <span className="flex-1 min-w-0 truncate text-sm font-medium">
+          {camera.label}
+        </span>
+        {status && (
+          <span
+            className="text-xs font-mono text-muted-foreground"
+            title={transcodeJob?.status === "failed" ? transcodeJob.error ?? "" : undefined}
+            data-testid={`text-upload-status-${camera.id}`}
+          >
+            {status}
+          </span>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) start(file);
+            e.target.value = "";
+          }}
+          data-testid={`input-upload-${camera.id}`}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={isUploading}
+          onClick={() => inputRef.current?.click()}
+          data-testid={`button-upload-${camera.id}`}
+        >
+          <UploadIcon className="w-4 h-4 mr-2" />
+          {isResumable ? "Resume" : "Upload"}
+        </Button>
+      </div>
+      {(isUploading || isResumable) && (
+        <Progress
+          value={progress * 100}
+          className="h-2"
+          data-testid={`progress-upload-${camera.id}`}
+        />
+      )}
+    </div>
+  );
+}
+
+export function CameraUploadPanel({ match }: { match: MatchWithCameras }) {
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-upload"
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Camera files
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        Uploads resume where they stopped if the connection drops; pick the
+        same file again to continue. Each file is transcoded for adaptive
+        streaming once it arrives.
+      </p>
+
+      <div className="flex flex-col gap-3">
+        {match.cameras.map((camera) => (
+          <CameraUploadRow key={camera.id} camera={camera} />
+        ))}
+      </div>
+    </div>
+  );
+}
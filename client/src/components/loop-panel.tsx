@@ -0,0 +1,308 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { canExportClips, clipExtension, exportClip } from "@/lib/clip-export";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ScoreBugData } from "@/lib/score-bug";
+import { Bookmark, Download, X } from "lucide-react";
+import { canPerform } from "@shared/permissions";
+import type {
+  CreateRegion,
+  MatchCamera,
+  MatchWithCameras,
+  Region,
+} from "@shared/schema";
+
+function formatTime(seconds: number | null): string {
+  if (seconds === null) return "–";
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+interface LoopPanelProps {
+  match: MatchWithCameras;
+  loopIn: number | null;
+  loopOut: number | null;
+  isCyclingAngles: boolean;
+  onCyclingChange: (cycling: boolean) => void;
+  onSetIn: () => void;
+  onSetOut: () => void;
+  onClear: () => void;
+  onSelectRegion: (region: Region) => void;
+  // Off where the match's API is out of reach, e.g. behind a share link
+  showSavedRegions: boolean;
+  // The angle on stage, which exported clips are recorded from
+  camera: MatchCamera | undefined;
+  // The score bug burned into exported clips, or null when it is hidden
+  score: ScoreBugData | null;
+}
+
+// Sets the in and out points of the A–B loop, exports it as a clip of the
+// angle on stage, and keeps named regions of the match on the server for
+// everyone watching it
+export function LoopPanel({
+  match,
+  loopIn,
+  loopOut,
+  isCyclingAngles,
+  onCyclingChange,
+  onSetIn,
+  onSetOut,
+  onClear,
+  onSelectRegion,
+  showSavedRegions,
+  camera,
+  score,
+}: LoopPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const regionsQueryKey = ["/api/matches", match.id, "regions"];
+  const [name, setName] = useState("");
+  // Percentage of the clip recorded, while one is
+  const [exportPercent, setExportPercent] = useState<number | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const { data: regions } = useQuery<Region[]>({
+    queryKey: regionsQueryKey,
+    enabled: showSavedRegions,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Could not update regions",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveRegion = useMutation({
+    mutationFn: async (body: CreateRegion) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/matches/${match.id}/regions`,
+        body,
+      );
+      return (await res.json()) as Region;
+    },
+    onSuccess: (region) => {
+      queryClient.setQueryData<Region[]>(regionsQueryKey, (prev) =>
+        [...(prev ?? []), region].sort((a, b) => a.startTime - b.startTime),
+      );
+      setName("");
+    },
+    onError,
+  });
+
+  const deleteRegion = useMutation({
+    mutationFn: async (region: Region) => {
+      await apiRequest(
+        "DELETE",
+        `/api/matches/${match.id}/regions/${region.id}`,
+      );
+    },
+    onSuccess: (_data, region) => {
+      queryClient.setQueryData<Region[]>(regionsQueryKey, (prev) =>
+        prev?.filter((r) => r.id !== region.id),
+      );
+    },
+    onError,
+  });
+
+  const hasLoop = loopIn !== null && loopOut !== null && loopOut > loopIn;
+
+  const handleExport = async () => {
+    if (!hasLoop || !camera) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportPercent(0);
+    try {
+      const clip = await exportClip({
+        camera,
+        start: loopIn,
+        end: loopOut,
+        score,
+        signal: controller.signal,
+        // Only re-renders when the shown percentage changes
+        onProgress: (fraction) => setExportPercent(Math.round(fraction * 100)),
+      });
+      const url = URL.createObjectURL(clip);
+      const span = `${Math.floor(loopIn)}s-${Math.ceil(loopOut)}s`;
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${match.title} ${span}.${clipExtension(clip)}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        toast({
+          title: "Could not export the clip",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportPercent(null);
+    }
+  };
+
+  const canDelete = (region: Region) =>
+    region.createdBy === user?.id || canPerform(match.role, "edit");
+
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-loop"
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        A–B loop
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        Press [ and ] to mark the in and out points; playback then repeats
+        between them on every angle. Exporting records the loop from the angle
+        on stage, with the score if it is shown, in real time.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onSetIn}
+          data-testid="button-loop-in"
+        >
+          In {formatTime(loopIn)}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onSetOut}
+          data-testid="button-loop-out"
+        >
+          Out {formatTime(loopOut)}
+        </Button>
+        {(loopIn !== null || loopOut !== null) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClear}
+            data-testid="button-loop-clear"
+          >
+            Clear
+          </Button>
+        )}
+        {exportPercent === null ? (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleExport}
+            disabled={!hasLoop || !camera || !canExportClips()}
+            data-testid="button-loop-export"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export clip
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => exportAbortRef.current?.abort()}
+            data-testid="button-loop-export-cancel"
+          >
+            Exporting {exportPercent}% · Cancel
+          </Button>
+        )}
+        <label className="flex items-center gap-2 ml-auto text-sm">
+          <Switch
+            checked={isCyclingAngles}
+            onCheckedChange={onCyclingChange}
+            data-testid="switch-loop-cycle-angles"
+          />
+          Next angle each loop
+        </label>
+      </div>
+
+      {showSavedRegions && (
+        <>
+          {user && (
+            <form
+              className="flex items-center gap-2 mt-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                const trimmed = name.trim();
+                if (trimmed && hasLoop) {
+                  saveRegion.mutate({
+                    name: trimmed,
+                    startTime: loopIn,
+                    endTime: loopOut,
+                  });
+                }
+              }}
+            >
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name this loop, e.g. Set 2 break point"
+                maxLength={100}
+                className="flex-1 h-8"
+                data-testid="input-region-name"
+              />
+              <Button
+                type="submit"
+                variant="secondary"
+                size="sm"
+                disabled={saveRegion.isPending || !hasLoop || !name.trim()}
+                data-testid="button-save-region"
+              >
+                <Bookmark className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            </form>
+          )}
+
+          {regions && regions.length > 0 && (
+            <div className="flex flex-col gap-1 mt-3">
+              {regions.map((region) => (
+                <div
+                  key={region.id}
+                  className="flex items-center gap-2"
+                  data-testid={`row-region-${region.id}`}
+                >
+                  <button
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left rounded-md px-2 py-1 hover-elevate"
+                    onClick={() => onSelectRegion(region)}
+                    data-testid={`button-play-region-${region.id}`}
+                  >
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium">
+                      {region.name}
+                    </span>
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {formatTime(region.startTime)}–
+                      {formatTime(region.endTime)}
+                    </span>
+                  </button>
+                  {canDelete(region) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={deleteRegion.isPending}
+                      onClick={() => deleteRegion.mutate(region)}
+                      title="Delete region"
+                      data-testid={`button-delete-region-${region.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserPlus, X } from "lucide-react";
+import {
+  matchRoles,
+  type MatchMemberWithUser,
+  type MatchRole,
+  type MatchWithCameras,
+} from "@shared/schema";
+
+const ROLE_LABELS: Record<MatchRole, string> = {
+  viewer: "Viewer",
+  player: "Player",
+  coach: "Coach",
+  owner: "Owner",
+};
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+  testId,
+}: {
+  value: MatchRole;
+  onChange: (role: MatchRole) => void;
+  disabled?: boolean;
+  testId: string;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(role) => onChange(role as MatchRole)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-28 h-8" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {matchRoles.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Lets owners share a match with other accounts and change their roles
+export function MembersPanel({ match }: { match: MatchWithCameras }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const membersQueryKey = ["/api/matches", match.id, "members"];
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<MatchRole>("viewer");
+
+  const { data: members } = useQuery<MatchMemberWithUser[]>({
+    queryKey: membersQueryKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Could not update members",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const upsertMember = useMutation({
+    mutationFn: async (member: { username: string; role: MatchRole }) => {
+      const res = await apiRequest(
+        "PUT",
+        `/api/matches/${match.id}/members`,
+        member,
+      );
+      return (await res.json()) as MatchMemberWithUser[];
+    },
+    onSuccess: (updated, member) => {
+      queryClient.setQueryData(membersQueryKey, updated);
+      if (member.username === username) setUsername("");
+      // Demoting yourself changes what this page may show
+      if (member.username === user?.username) {
+        queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      }
+    },
+    onError,
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (member: MatchMemberWithUser) => {
+      await apiRequest(
+        "DELETE",
+        `/api/matches/${match.id}/members/${member.userId}`,
+      );
+    },
+    onSuccess: (_data, member) => {
+      queryClient.setQueryData<MatchMemberWithUser[]>(membersQueryKey, (prev) =>
+        prev?.filter((m) => m.userId !== member.userId),
+      );
+      if (member.userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      }
+    },
+    onError,
+  });
+
+  const isSaving = upsertMember.isPending || removeMember.isPending;
+
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-members"
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Members
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        {match.isPublic
+          ? "Anyone can view this match. "
+          : "Only members can view this match. "}
+        Coaches and owners can calibrate and upload camera files; owners manage
+        members.
+      </p>
+
+      <div className="flex flex-col gap-2">
+        {members?.map((member) => (
+          <div
+            key={member.userId}
+            className="flex items-center gap-2"
+            data-testid={`row-member-${member.userId}`}
+          >
+            <span className="flex-1 min-w-0 truncate text-sm font-medium">
+              {member.username}
+            </span>
+            <RoleSelect
+              value={member.role}
+              disabled={isSaving}
+              onChange={(next) =>
+                upsertMember.mutate({ username: member.username, role: next })
+              }
+              testId={`select-member-role-${member.userId}`}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={isSaving}
+              onClick={() => removeMember.mutate(member)}
+              title="Remove member"
+              data-testid={`button-remove-member-${member.userId}`}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <form
+        className="flex items-center gap-2 mt-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const trimmed = username.trim();
+          if (trimmed) upsertMember.mutate({ username: trimmed, role });
+        }}
+      >
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          className="flex-1 h-8"
+          data-testid="input-member-username"
+        />
+        <RoleSelect
+          value={role}
+          onChange={setRole}
+          testId="select-new-member-role"
+        />
+        <Button
+          type="submit"
+          variant="secondary"
+          size="sm"
+          disabled={isSaving || !username.trim()}
+          data-testid="button-add-member"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { pointSpans, SHOT_TYPE_LABELS, sideName } from "@/lib/scoring";
+import type { Point } from "@shared/schema";
+
+interface PointTimelineProps {
+  points: Point[];
+  players: string[];
+  currentTime: number;
+  // Where a master time falls along the scrubber, in percent
+  percentOf: (time: number) => number;
+  onSeek: (time: number) => void;
+}
+
+function describePoint(point: Point, players: string[]): string {
+  const shot = point.shotType ? ` (${SHOT_TYPE_LABELS[point.shotType]})` : "";
+  return `Set ${point.setNumber}, game ${point.gameNumber}: ${sideName(
+    players,
+    point.server,
+  )} serving, won by ${sideName(players, point.winner)}${shot}`;
+}
+
+// Bands for the sets and games of the match and a marker at the start of
+// every point, laid over the same span as the scrubber below. Markers are
+// coloured by who won the point; clicking one seeks to it.
+export function PointTimeline({
+  points,
+  players,
+  currentTime,
+  percentOf,
+  onSeek,
+}: PointTimelineProps) {
+  const span = (start: number, end: number) => {
+    const left = Math.max(0, percentOf(start));
+    return {
+      left: `${left}%`,
+      width: `${Math.max(0, Math.min(100, percentOf(end)) - left)}%`,
+    };
+  };
+
+  return (
+    <div className="flex flex-col gap-0.5" data-testid="point-timeline">
+      <div className="relative h-3">
+        {pointSpans(points, false).map((set, i) => (
+          <div
+            key={`${set.setNumber}-${i}`}
+            className={`absolute inset-y-0 overflow-hidden rounded-sm px-1 text-[9px] leading-3 text-muted-foreground ${
+              i % 2 === 0 ? "bg-muted" : "bg-muted-foreground/20"
+            }`}
+            style={span(set.startTime, set.endTime)}
+            data-testid={`band-set-${set.setNumber}`}
+          >
+            Set {set.setNumber}
+          </div>
+        ))}
+      </div>
+
+      <div className="relative h-1.5">
+        {pointSpans(points, true).map((game, i) => (
+          <div
+            key={`${game.setNumber}-${game.gameNumber}-${i}`}
+            className={`absolute inset-y-0 rounded-sm ${
+              i % 2 === 0 ? "bg-primary/40" : "bg-primary/15"
+            }`}
+            style={span(game.startTime, game.endTime)}
+            title={`Set ${game.setNumber}, game ${game.gameNumber}`}
+          />
+        ))}
+      </div>
+
+      <div className="relative h-3">
+        {points.map((point) => {
+          const isCurrent =
+            currentTime >= point.startTime && currentTime < point.endTime;
+          return (
+            <button
+              key={point.id}
+              className="absolute inset-y-0 w-2 -translate-x-1/2 flex justify-center"
+              style={{ left: `${percentOf(point.startTime)}%` }}
+              onClick={() => onSeek(point.startTime)}
+              title={describePoint(point, players)}
+              data-testid={`marker-point-${point.id}`}
+            >
+              <span
+                className={`h-full rounded-full ${
+                  isCurrent ? "w-1" : "w-0.5"
+                } ${point.winner === 0 ? "bg-primary" : "bg-chart-2"}`}
+              />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
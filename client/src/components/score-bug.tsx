@@ -0,0 +1,63 @@
+import {
+  scoreBugRows,
+  type ScoreBugCell,
+  type ScoreBugCellKind,
+  type ScoreBugData,
+} from "@/lib/score-bug";
+
+interface ScoreBugProps extends ScoreBugData {
+  currentTime: number;
+}
+
+const CELL_CLASSES: Record<ScoreBugCellKind, string> = {
+  set: "w-4",
+  games: "w-4 font-semibold",
+  points: "w-8 rounded-sm bg-primary/80 text-primary-foreground",
+};
+
+function cellClassName(cell: ScoreBugCell): string {
+  return `text-center font-mono tabular-nums ${CELL_CLASSES[cell.kind]} ${
+    cell.faded ? "text-white/50" : ""
+  }`;
+}
+
+// Broadcast-style score for the moment on stage (see lib/score-bug.ts): a
+// row per side with the serving dot, the games of each finished set, the
+// current set's games and the points of the game being played
+export function ScoreBug({ currentTime, ...data }: ScoreBugProps) {
+  return (
+    <div
+      className="flex flex-col gap-0.5 px-3 py-1.5 bg-black/60 backdrop-blur-sm rounded-md text-sm text-white pointer-events-none"
+      data-testid="score-bug"
+    >
+      {scoreBugRows(data, currentTime).map((row) => (
+        <div key={row.side} className="flex items-center gap-2">
+          <span
+            className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+              row.isServing ? "bg-primary" : "bg-transparent"
+            }`}
+            data-testid={
+              row.isServing ? "indicator-score-bug-server" : undefined
+            }
+          />
+          <span className="flex-1 max-w-40 truncate font-medium uppercase tracking-wide">
+            {row.name}
+          </span>
+          {row.cells.map((cell, i) => (
+            <span
+              key={i}
+              className={cellClassName(cell)}
+              data-testid={
+                cell.kind === "points"
+                  ? `text-score-bug-points-${row.side}`
+                  : undefined
+              }
+            >
+              {cell.text}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Link as LinkIcon, X } from "lucide-react";
+import type {
+  CreateShare,
+  MatchCamera,
+  MatchWithCameras,
+  ShareWithToken,
+} from "@shared/schema";
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: "1 day" },
+  { hours: 7 * 24, label: "7 days" },
+  { hours: 30 * 24, label: "30 days" },
+];
+
+function formatTime(seconds: number | null, fallback: string): string {
+  if (seconds === null) return fallback;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+interface SharePanelProps {
+  match: MatchWithCameras;
+  currentTime: number;
+  mainAngle: MatchCamera["id"];
+}
+
+// Mints links that open the viewer on a window of the match for someone
+// without an account, and lists the live ones so they can be revoked
+export function SharePanel({ match, currentTime, mainAngle }: SharePanelProps) {
+  const { toast } = useToast();
+  const sharesQueryKey = ["/api/matches", match.id, "shares"];
+
+  const [startTime, setStartTime] = useState<number | null>(null);
+  const [endTime, setEndTime] = useState<number | null>(null);
+  const [cameraIds, setCameraIds] = useState<MatchCamera["id"][]>(() =>
+    match.cameras.map((camera) => camera.id),
+  );
+  const [expiresInHours, setExpiresInHours] = useState(7 * 24);
+
+  const { data: shares } = useQuery<ShareWithToken[]>({
+    queryKey: sharesQueryKey,
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast({ title: "Link copied" });
+    } catch {
+      toast({
+        title: "Could not copy the link",
+        description: shareUrl(token),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Could not update share links",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createShare = useMutation({
+    mutationFn: async () => {
+      // The angle on stage opens first for whoever follows the link
+      const ordered = [...cameraIds].sort(
+        (a, b) => Number(b === mainAngle) - Number(a === mainAngle),
+      );
+      const body: Partial<CreateShare> = {
+        matchId: match.id,
+        startTime,
+        endTime,
+        cameraIds:
+          ordered.length === match.cameras.length &&
+          ordered[0] === match.cameras[0]?.id
+            ? null
+            : ordered,
+        expiresInHours,
+      };
+      const res = await apiRequest("POST", "/api/shares", body);
+      return (await res.json()) as ShareWithToken;
+    },
+    onSuccess: (share) => {
+      queryClient.setQueryData<ShareWithToken[]>(sharesQueryKey, (prev) => [
+        share,
+        ...(prev ?? []),
+      ]);
+      copyLink(share.token);
+    },
+    onError,
+  });
+
+  const revokeShare = useMutation({
+    mutationFn: async (share: ShareWithToken) => {
+      await apiRequest("DELETE", `/api/shares/${share.id}`);
+    },
+    onSuccess: (_data, share) => {
+      queryClient.setQueryData<ShareWithToken[]>(sharesQueryKey, (prev) =>
+        prev?.filter((s) => s.id !== share.id),
+      );
+    },
+    onError,
+  });
+
+  const toggleCamera = (cameraId: MatchCamera["id"], checked: boolean) => {
+    setCameraIds((prev) =>
+      checked ? [...prev, cameraId] : prev.filter((id) => id !== cameraId),
+    );
+  };
+
+  const isWindowValid =
+    startTime === null || endTime === null || endTime > startTime;
+
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-share"
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        Share links
+      </h3>
+      <p className="text-xs text-muted-foreground mt-1 mb-3">
+        Anyone with a link can watch the chosen angles between its start and end
+        without an account, until it expires or is revoked. A link to part of
+        the match can only include transcoded angles, and is held to the nearest
+        few seconds.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setStartTime(currentTime)}
+          data-testid="button-share-start"
+        >
+          From {formatTime(startTime, "start")}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setEndTime(currentTime)}
+          data-testid="button-share-end"
+        >
+          To {formatTime(endTime, "end")}
+        </Button>
+        {(startTime !== null || endTime !== null) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setStartTime(null);
+              setEndTime(null);
+            }}
+            data-testid="button-share-whole-match"
+          >
+            Whole match
+          </Button>
+        )}
+        <Select
+          value={String(expiresInHours)}
+          onValueChange={(value) => setExpiresInHours(Number(value))}
+        >
+          <SelectTrigger className="w-28 h-8" data-testid="select-share-expiry">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.hours} value={String(option.hours)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2 mt-3">
+        {match.cameras.map((camera) => (
+          <label
+            key={camera.id}
+            className="flex items-center gap-2 text-sm"
+            data-testid={`label-share-camera-${camera.id}`}
+          >
+            <Checkbox
+              checked={cameraIds.includes(camera.id)}
+              onCheckedChange={(checked) =>
+                toggleCamera(camera.id, checked === true)
+              }
+            />
+            {camera.label}
+          </label>
+        ))}
+      </div>
+
+      <Button
+        className="mt-3"
+        size="sm"
+        disabled={
+          createShare.isPending || cameraIds.length === 0 || !isWindowValid
+        }
+        onClick={() => createShare.mutate()}
+        data-testid="button-create-share"
+      >
+        <LinkIcon className="w-4 h-4 mr-2" />
+        Create and copy link
+      </Button>
+
+      {shares && shares.length > 0 && (
+        <div className="flex flex-col gap-2 mt-4">
+          {shares.map((share) => (
+            <div
+              key={share.id}
+              className="flex items-center gap-2"
+              data-testid={`row-share-${share.id}`}
+            >
+              <span className="flex-1 min-w-0 truncate text-xs font-mono text-muted-foreground">
+                {formatTime(share.startTime, "start")}–
+                {formatTime(share.endTime, "end")}
+                {share.cameraIds
+                  ? `, ${share.cameraIds.length} angle${share.cameraIds.length === 1 ? "" : "s"}`
+                  : ""}
+                , until {new Date(share.expiresAt).toLocaleDateString()}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => copyLink(share.token)}
+                title="Copy link"
+                data-testid={`button-copy-share-${share.id}`}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={revokeShare.isPending}
+                onClick={() => revokeShare.mutate(share)}
+                title="Revoke link"
+                data-testid={`button-revoke-share-${share.id}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { isEditableTarget } from "@/lib/keyboard";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  gamePointCalls,
+  otherSide,
+  runningScore,
+  SHOT_TYPE_LABELS,
+  sideName,
+} from "@/lib/scoring";
+import type { SyncEngine } from "@/lib/sync-engine";
+import { Undo2 } from "lucide-react";
+import type {
+  CreatePoint,
+  Match,
+  MatchWithCameras,
+  PlayerSide,
+  Point,
+  PointShotType,
+} from "@shared/schema";
+
+function formatTime(seconds: number | null): string {
+  if (seconds === null) return "–";
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+}
+
+// The point being logged: marks made so far, in the order they were made
+// so undo can take them back one at a time
+interface DraftPoint {
+  startTime: number | null;
+  endTime: number | null;
+  shotType: PointShotType | null;
+  // Set when the logger overrides who the score says serves
+  server: PlayerSide | null;
+  marks: ("startTime" | "endTime" | "shotType" | "server")[];
+}
+
+const EMPTY_DRAFT: DraftPoint = {
+  startTime: null,
+  endTime: null,
+  shotType: null,
+  server: null,
+  marks: [],
+};
+
+// Shot types that only say how the rally ended; who won is pressed after
+const RALLY_SHOT_KEYS: Record<string, PointShotType> = {
+  w: "winner",
+  r: "forced-error",
+  u: "unforced-error",
+};
+
+const HOTKEYS: [string, string][] = [
+  ["S", "Serve (point starts)"],
+  ["E", "Rally ends"],
+  ["C", "Ace"],
+  ["D", "Double fault"],
+  ["W", "Winner"],
+  ["R", "Forced error"],
+  ["U", "Unforced error"],
+  ["A / B", "Point to side A / B"],
+  ["X", "Swap server"],
+  ["Z", "Undo"],
+];
+
+interface TaggingPanelProps {
+  match: MatchWithCameras;
+  engine: SyncEngine;
+  // The match's points in timeline order
+  points: Point[];
+}
+
+// Builds a match's scoring data while watching it. Hotkeys mark the
+// serve and the end of the rally at the current time, how the point ended
+// and who won it; each finished point is saved straight away and the
+// running score follows from the points saved so far.
+export function TaggingPanel({ match, engine, points }: TaggingPanelProps) {
+  const { toast } = useToast();
+  const pointsQueryKey = ["/api/matches", match.id, "points"];
+  const [draft, setDraft] = useState<DraftPoint>(EMPTY_DRAFT);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const savePoint = useMutation({
+    mutationFn: async (body: CreatePoint) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/matches/${match.id}/points`,
+        body,
+      );
+      return (await res.json()) as Point;
+    },
+    onSuccess: (point) => {
+      queryClient.setQueryData<Point[]>(pointsQueryKey, (prev) =>
+        [...(prev ?? []), point].sort((a, b) => a.startTime - b.startTime),
+      );
+    },
+    onError: onError("Could not save point"),
+  });
+
+  const deletePoint = useMutation({
+    mutationFn: async (point: Point) => {
+      await apiRequest("DELETE", `/api/matches/${match.id}/points/${point.id}`);
+    },
+    onSuccess: (_data, point) => {
+      queryClient.setQueryData<Point[]>(pointsQueryKey, (prev) =>
+        prev?.filter((p) => p.id !== point.id),
+      );
+    },
+    onError: onError("Could not undo point"),
+  });
+
+  const setNoAd = useMutation({
+    mutationFn: async (noAdScoring: boolean) => {
+      const res = await apiRequest("PATCH", `/api/matches/${match.id}`, {
+        noAdScoring,
+      });
+      return (await res.json()) as Match;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MatchWithCameras>(
+        ["/api/matches", match.id],
+        (old) => old && { ...old, noAdScoring: updated.noAdScoring },
+      );
+    },
+    onError: onError("Could not change scoring"),
+  });
+
+  // Mutation results change every render; these do not
+  const { mutate: saveMutate } = savePoint;
+  const { mutate: deleteMutate, isPending: isUndoing } = deletePoint;
+
+  // The score going into the point being logged
+  const scoreAt = useCallback(
+    (time: number) =>
+      runningScore(
+        points.filter((point) => point.startTime < time),
+        match.noAdScoring,
+      ),
+    [points, match.noAdScoring],
+  );
+  const score = scoreAt(draft.startTime ?? engine.currentTime);
+  const server = draft.server ?? score.server;
+  const [callA, callB] = gamePointCalls(score);
+
+  const mark = useCallback(
+    <K extends keyof Omit<DraftPoint, "marks">>(
+      field: K,
+      value: DraftPoint[K],
+    ) => {
+      setDraft((prev) => ({
+        ...prev,
+        [field]: value,
+        marks: [...prev.marks.filter((m) => m !== field), field],
+      }));
+    },
+    [],
+  );
+
+  // Saves the draft as a point won by winner. The draft is cleared at
+  // once so logging can carry on, and put back if the save fails.
+  const commit = useCallback(
+    (winner: PlayerSide, shotType: PointShotType | null) => {
+      if (draft.startTime === null) {
+        toast({ title: "Mark the serve first (S)" });
+        return;
+      }
+      const endTime = draft.endTime ?? engine.currentTime;
+      if (endTime <= draft.startTime) {
+        toast({ title: "The rally must end after the serve" });
+        return;
+      }
+
+      const pending = draft;
+      const { setNumber, gameNumber } = scoreAt(draft.startTime);
+      setDraft(EMPTY_DRAFT);
+      saveMutate(
+        {
+          startTime: draft.startTime,
+          endTime,
+          setNumber,
+          gameNumber,
+          server,
+          winner,
+          shotType,
+        },
+        {
+          onError: () =>
+            setDraft((current) =>
+              current.marks.length === 0 ? pending : current,
+            ),
+        },
+      );
+    },
+    [draft, engine, scoreAt, server, saveMutate, toast],
+  );
+
+  // Takes back the latest mark, or with none left the last saved point
+  const undo = useCallback(() => {
+    const field = draft.marks[draft.marks.length - 1];
+    if (field) {
+      setDraft((prev) => ({
+        ...prev,
+        [field]: null,
+        marks: prev.marks.slice(0, -1),
+      }));
+      return;
+    }
+    const last = points[points.length - 1];
+    if (last && !isUndoing) deleteMutate(last);
+  }, [draft.marks, points, isUndoing, deleteMutate]);
+
+  useEffect(() => {
+    const handleKeydown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      // Z on its own or with Ctrl / Cmd, as undo usually is
+      if (key === "z" && !e.altKey && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (key in RALLY_SHOT_KEYS) {
+        mark("shotType", RALLY_SHOT_KEYS[key]);
+        return;
+      }
+      switch (key) {
+        case "s":
+          mark("startTime", engine.currentTime);
+          break;
+        case "e":
+          mark("endTime", engine.currentTime);
+          break;
+        case "x":
+          mark("server", otherSide(server));
+          break;
+        case "c":
+          commit(server, "ace");
+          break;
+        case "d":
+          commit(otherSide(server), "double-fault");
+          break;
+        case "a":
+          commit(0, draft.shotType);
+          break;
+        case "b":
+          commit(1, draft.shotType);
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeydown);
+    return () => window.removeEventListener("keydown", handleKeydown);
+  }, [engine, server, draft.shotType, mark, commit, undo]);
+
+  const sides: PlayerSide[] = [0, 1];
+
+  return (
+    <div
+      className="mt-4 p-4 bg-card rounded-lg border border-card-border"
+      data-testid="panel-tagging"
+    >
+      <div className="flex items-center gap-2">
+        <h3 className="flex-1 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+          Point tagging
+        </h3>
+        <span
+          className="text-xs text-muted-foreground"
+          data-testid="text-tagging-status"
+        >
+          {savePoint.isPending || isUndoing
+            ? "Saving…"
+            : `${points.length} point${points.length === 1 ? "" : "s"} saved`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-1 mt-3 text-sm">
+        {sides.map((side) => (
+          <div key={side} className="contents">
+            <span className="flex items-center gap-2 min-w-0">
+              <span
+                className={`w-2 h-2 rounded-full shrink-0 ${
+                  server === side ? "bg-primary" : "bg-transparent"
+                }`}
+                title={server === side ? "Serving" : undefined}
+              />
+              <span className="truncate">
+                {side === 0 ? "A" : "B"} · {sideName(match.players, side)}
+              </span>
+            </span>
+            <span className="font-mono tabular-nums">
+              {[...score.sets.map((set) => set[side]), score.games[side]].join(
+                " ",
+              )}
+            </span>
+            <span
+              className="font-mono tabular-nums w-8 text-right"
+              data-testid={`text-tagging-points-${side}`}
+            >
+              {side === 0 ? callA : callB}
+            </span>
+          </div>
+        ))}
+      </div>
+      {score.isTiebreak && (
+        <Badge variant="secondary" className="mt-2">
+          Tiebreak
+        </Badge>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-xs font-mono">
+        <span data-testid="text-tagging-start">
+          Serve {formatTime(draft.startTime)}
+        </span>
+        <span data-testid="text-tagging-end">
+          End {formatTime(draft.endTime)}
+        </span>
+        {draft.shotType && (
+          <Badge variant="outline">{SHOT_TYPE_LABELS[draft.shotType]}</Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={undo}
+          disabled={
+            isUndoing || (draft.marks.length === 0 && points.length === 0)
+          }
+          data-testid="button-tagging-undo"
+        >
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo
+        </Button>
+      </div>
+
+      <label className="flex items-center gap-2 mt-3 text-sm">
+        <Switch
+          checked={match.noAdScoring}
+          onCheckedChange={(checked) => setNoAd.mutate(checked)}
+          disabled={setNoAd.isPending}
+          data-testid="switch-no-ad"
+        />
+        No-ad scoring
+      </label>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-3 text-xs">
+        {HOTKEYS.map(([keys, action]) => (
+          <div key={keys} className="flex items-center gap-2">
+            <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
+              {keys}
+            </kbd>
+            <span className="text-muted-foreground">{action}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
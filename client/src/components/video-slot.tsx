@@ -0,0 +1,30 @@
+import { useLayoutEffect, useRef } from "react";
+
+interface VideoSlotProps {
+  video: HTMLVideoElement | undefined;
+  className: string;
+  muted: boolean;
+  testId?: string;
+}
+
+// Displays a pooled <video> element by moving it into this slot's container.
+// Moving a media element within the document does not reload or pause it.
+export function VideoSlot({ video, className, muted, testId }: VideoSlotProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || !video) return;
+
+    video.className = className;
+    video.muted = muted;
+    if (testId) {
+      video.setAttribute("data-testid", testId);
+    } else {
+      video.removeAttribute("data-testid");
+    }
+    if (video.parentElement !== container) container.appendChild(video);
+  }, [video, className, muted, testId]);
+
+  return <div ref={containerRef} className="absolute inset-0" />;
+}
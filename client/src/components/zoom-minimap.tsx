@@ -0,0 +1,39 @@
+import { visibleRegion, type StageZoom } from "@/lib/stage-zoom";
+
+interface ZoomMinimapProps {
+  zoom: StageZoom;
+  posterSrc: string | null;
+}
+
+// A fifth-size copy of the stage with the visible region outlined. Being
+// the stage's shape, fractions of the stage place the outline directly.
+export function ZoomMinimap({ zoom, posterSrc }: ZoomMinimapProps) {
+  const { left, top, size } = visibleRegion(zoom);
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-10 w-1/5 h-1/5 bg-black/60 backdrop-blur-sm rounded-md overflow-hidden border border-white/20 pointer-events-none"
+      data-testid="zoom-minimap"
+    >
+      {posterSrc && (
+        <img
+          src={posterSrc}
+          alt=""
+          className="w-full h-full object-contain opacity-70"
+        />
+      )}
+      <div
+        className="absolute border-2 border-primary rounded-sm"
+        style={{
+          left: `${left * 100}%`,
+          top: `${top * 100}%`,
+          width: `${size * 100}%`,
+          height: `${size * 100}%`,
+        }}
+      />
+      <span className="absolute bottom-1 right-1.5 text-[10px] font-mono text-white">
+        {zoom.scale.toFixed(1)}x
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { createContext, useContext, type ReactNode } from "react";
+import {
+  useMutation,
+  useQuery,
+  type UseMutationResult,
+} from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type {
+  InsertUser,
+  PublicUser,
+  RegisterUser,
+  UserPreferences,
+} from "@shared/schema";
+
+const ME_QUERY_KEY = ["/api/auth/me"];
+
+interface AuthContextValue {
+  // Null when nobody is signed in
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  preferencesMutation: UseMutationResult<PublicUser, Error, UserPreferences>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Everything else the server returns may depend on who is asking
+  const onSignedIn = (signedIn: PublicUser) => {
+    queryClient.setQueryData(ME_QUERY_KEY, signedIn);
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[0] !== ME_QUERY_KEY[0],
+    });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not sign in",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (details: RegisterUser) => {
+      const res = await apiRequest("POST", "/api/auth/register", details);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+      queryClient.invalidateQueries({
+        predicate: (query) => query.queryKey[0] !== ME_QUERY_KEY[0],
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not sign out",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Saved quietly: a setting that fails to save still applies to this page
+  const preferencesMutation = useMutation({
+    mutationFn: async (preferences: UserPreferences) => {
+      const res = await apiRequest(
+        "PATCH",
+        "/api/auth/me/preferences",
+        preferences,
+      );
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(ME_QUERY_KEY, updated);
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+        preferencesMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
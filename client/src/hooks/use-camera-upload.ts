@@ -0,0 +1,110 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MatchCamera, Upload } from "@shared/schema";
+
+// Chunks are small enough to resend cheaply after a dropped connection and
+// well under the server's 16MB limit
+const CHUNK_BYTES = 8 * 1024 * 1024;
+// Consecutive failed chunks tolerated before giving up, with backoff
+// between attempts capped at MAX_BACKOFF_MS
+const MAX_RETRIES = 10;
+const MAX_BACKOFF_MS = 30_000;
+
+async function sha256Base64(chunk: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await chunk.arrayBuffer(),
+  );
+  return btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(digest))));
+}
+
+// Sends one chunk. Returns null when the chunk should be retried after
+// resyncing the offset (conflict, corrupted chunk, server trouble).
+async function sendChunk(url: string, upload: Upload, chunk: Blob) {
+  const res = await fetch(url, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": String(upload.offset),
+      "Upload-Checksum": `sha256 ${await sha256Base64(chunk)}`,
+    },
+    body: chunk,
+    credentials: "include",
+  });
+  if (res.ok) return (await res.json()) as Upload;
+  if (res.status === 409 || res.status === 422 || res.status >= 500) {
+    return null;
+  }
+  const text = (await res.text()) || res.statusText;
+  throw new Error(`${res.status}: ${text}`);
+}
+
+// Uploads a camera's source file in checksummed chunks, resuming from the
+// server's offset after failures or when the same file is picked again.
+// The upload record, and so its progress, lives in the React Query cache.
+export function useCameraUpload(
+  matchId: MatchCamera["matchId"],
+  cameraId: MatchCamera["id"],
+) {
+  const url = `/api/matches/${matchId}/cameras/${cameraId}/upload`;
+  const queryKey = ["/api/matches", matchId, "cameras", cameraId, "upload"];
+
+  const { data: upload } = useQuery<Upload | null>({ queryKey });
+
+  const mutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await apiRequest("POST", url, {
+        filename: file.name,
+        size: file.size,
+      });
+      let current = (await res.json()) as Upload;
+      queryClient.setQueryData(queryKey, current);
+
+      let failures = 0;
+      while (current.status === "uploading") {
+        const chunk = file.slice(current.offset, current.offset + CHUNK_BYTES);
+        let next: Upload | null = null;
+        try {
+          next = await sendChunk(`${url}/${current.id}`, current, chunk);
+        } catch (err) {
+          // fetch rejects with a TypeError when the network drops
+          if (!(err instanceof TypeError)) throw err;
+        }
+
+        if (next) {
+          failures = 0;
+          current = next;
+        } else {
+          if (++failures > MAX_RETRIES) {
+            throw new Error("Upload stalled; pick the file again to resume");
+          }
+          await new Promise((resolve) =>
+            setTimeout(resolve, Math.min(MAX_BACKOFF_MS, 500 * 2 ** failures)),
+          );
+          const latest = await queryClient.fetchQuery<Upload | null>({
+            queryKey,
+            staleTime: 0,
+          }).catch(() => current);
+          if (!latest || latest.id !== current.id) {
+            throw new Error("Upload was cancelled");
+          }
+          current = latest;
+        }
+        queryClient.setQueryData(queryKey, current);
+      }
+      return current;
+    },
+    onSuccess: () => {
+      // The camera now points at the uploaded file and a transcode is queued
+      queryClient.invalidateQueries({ queryKey: ["/api/matches", matchId] });
+    },
+  });
+
+  return {
+    upload: upload ?? null,
+    progress: upload ? upload.offset / upload.size : 0,
+    isUploading: mutation.isPending,
+    error: mutation.error,
+    start: mutation.mutate,
+  };
+}
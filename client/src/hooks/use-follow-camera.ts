@@ -0,0 +1,75 @@
+import { useEffect, useRef } from "react";
+import { toMediaTime } from "@/lib/camera-time";
+import { FollowCamera, framingFor, trackBoxAt } from "@/lib/follow-camera";
+import { zoomTransform, type StageZoom } from "@/lib/stage-zoom";
+import type { SyncEngine } from "@/lib/sync-engine";
+import type { MatchCamera, Track } from "@shared/schema";
+
+// Views closer than this are not worth restyling the stage for
+const SETTLED = 1e-4;
+// Longest step the camera takes after the tab was in the background
+const MAX_STEP_SECONDS = 0.1;
+
+// While a track is given, steers the stage zoom along it every animation
+// frame. The track must be of the camera on stage; video is that camera's
+// pooled element, whose picture size maps the track's boxes to the stage.
+// Each frame's view is written straight to the zoom layer's transform
+// rather than re-rendering the viewer; it is handed to setZoom once
+// following stops, so the user carries on from where the camera left off.
+export function useFollowCamera(
+  engine: SyncEngine,
+  stageRef: React.RefObject<HTMLDivElement | null>,
+  zoomLayerRef: React.RefObject<HTMLDivElement | null>,
+  camera: MatchCamera | undefined,
+  video: HTMLVideoElement | undefined,
+  track: Track | undefined,
+  zoom: StageZoom,
+  setZoom: (zoom: StageZoom) => void,
+) {
+  // Only seeds the camera, so a change does not restart it
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    const layer = zoomLayerRef.current;
+    if (!stage || !layer || !camera || !video || !track) return;
+
+    // Starts from wherever the user left the zoom
+    const follow = new FollowCamera(zoomRef.current);
+    const start = zoomRef.current;
+    let last = start;
+    let lastFrame = performance.now();
+    let handle = requestAnimationFrame(function tick(now) {
+      const dt = Math.min(MAX_STEP_SECONDS, (now - lastFrame) / 1000);
+      lastFrame = now;
+
+      const mediaTime = toMediaTime(camera, engine.currentTime);
+      const box = trackBoxAt(track.samples, mediaTime);
+      const target =
+        box && video.videoWidth > 0
+          ? framingFor(
+              box,
+              track.subject,
+              { width: stage.clientWidth, height: stage.clientHeight },
+              { width: video.videoWidth, height: video.videoHeight },
+            )
+          : null;
+      const view = follow.step(target, mediaTime, dt);
+
+      if (
+        Math.abs(view.scale - last.scale) > SETTLED ||
+        Math.abs(view.x - last.x) > SETTLED ||
+        Math.abs(view.y - last.y) > SETTLED
+      ) {
+        last = view;
+        layer.style.transform = zoomTransform(view);
+      }
+      handle = requestAnimationFrame(tick);
+    });
+    return () => {
+      cancelAnimationFrame(handle);
+      if (last !== start) setZoom(last);
+    };
+  }, [engine, stageRef, zoomLayerRef, camera, video, track, setZoom]);
+}
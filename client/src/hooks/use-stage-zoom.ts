@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  clampZoom,
+  UNZOOMED,
+  zoomAround,
+  type StageZoom,
+} from "@/lib/stage-zoom";
+import type { MatchCamera } from "@shared/schema";
+
+// Movement past which a press counts as a drag rather than a click
+const DRAG_THRESHOLD_PX = 4;
+// Zoom factor per pixel of wheel movement
+const WHEEL_ZOOM_SPEED = 0.002;
+const LINE_HEIGHT_PX = 16;
+
+// Scroll-wheel and pinch zoom with drag-to-pan over the stage, remembered
+// for each angle so switching back returns to the same view. Double-click
+// resets the angle on stage. A drag does not also click whatever it
+// started on, such as the play overlay. onInteract is told whenever the
+// user moves the view themselves.
+export function useStageZoom(
+  stageRef: React.RefObject<HTMLDivElement | null>,
+  angle: MatchCamera["id"],
+  enabled: boolean,
+  onInteract?: () => void,
+) {
+  const [zooms, setZooms] = useState<Record<MatchCamera["id"], StageZoom>>({});
+  const zoom = zooms[angle] ?? UNZOOMED;
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const onInteractRef = useRef(onInteract);
+  onInteractRef.current = onInteract;
+
+  const update = useCallback(
+    (next: (zoom: StageZoom) => StageZoom) => {
+      setZooms((prev) => ({
+        ...prev,
+        [angle]: clampZoom(next(prev[angle] ?? UNZOOMED)),
+      }));
+    },
+    [angle],
+  );
+
+  const setZoom = useCallback(
+    (next: StageZoom) => update(() => next),
+    [update],
+  );
+
+  const reset = useCallback(() => {
+    setZooms(({ [angle]: _discarded, ...rest }) => rest);
+  }, [angle]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || !enabled) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let travelled = 0;
+    let dragged = false;
+
+    const fractionOf = (clientX: number, clientY: number) => {
+      const rect = stage.getBoundingClientRect();
+      return {
+        px: (clientX - rect.left) / rect.width,
+        py: (clientY - rect.top) / rect.height,
+        rect,
+      };
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const delta = e.deltaY * (e.deltaMode === 1 ? LINE_HEIGHT_PX : 1);
+      const { px, py } = fractionOf(e.clientX, e.clientY);
+      onInteractRef.current?.();
+      update((z) => zoomAround(z, Math.exp(-delta * WHEEL_ZOOM_SPEED), px, py));
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === "mouse" && e.button !== 0) return;
+      if (pointers.size === 0) {
+        travelled = 0;
+        dragged = false;
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const last = pointers.get(e.pointerId);
+      if (!last) return;
+      const current = { x: e.clientX, y: e.clientY };
+
+      if (pointers.size === 1) {
+        travelled += Math.hypot(current.x - last.x, current.y - last.y);
+        if (travelled > DRAG_THRESHOLD_PX) dragged = true;
+        if (dragged) {
+          onInteractRef.current?.();
+        }
+        if (dragged && zoomRef.current.scale > 1) {
+          const { rect } = fractionOf(0, 0);
+          update((z) => ({
+            ...z,
+            x: z.x - (current.x - last.x) / rect.width / z.scale,
+            y: z.y - (current.y - last.y) / rect.height / z.scale,
+          }));
+        }
+      } else if (pointers.size === 2) {
+        // Pinch: the change in distance between the fingers scales around
+        // the point midway between them
+        const other = Array.from(pointers.entries()).find(
+          ([id]) => id !== e.pointerId,
+        )![1];
+        const before = Math.hypot(last.x - other.x, last.y - other.y);
+        const after = Math.hypot(current.x - other.x, current.y - other.y);
+        dragged = true;
+        if (before > 0) {
+          const { px, py } = fractionOf(
+            (current.x + other.x) / 2,
+            (current.y + other.y) / 2,
+          );
+          onInteractRef.current?.();
+          update((z) => zoomAround(z, after / before, px, py));
+        }
+      }
+      pointers.set(e.pointerId, current);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+    };
+
+    const handleDoubleClick = () => {
+      onInteractRef.current?.();
+      reset();
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      if (!dragged) return;
+      dragged = false;
+      e.stopPropagation();
+      e.preventDefault();
+    };
+
+    stage.addEventListener("wheel", handleWheel, { passive: false });
+    stage.addEventListener("pointerdown", handlePointerDown);
+    stage.addEventListener("pointermove", handlePointerMove);
+    stage.addEventListener("pointerup", handlePointerUp);
+    stage.addEventListener("pointercancel", handlePointerUp);
+    stage.addEventListener("pointerleave", handlePointerUp);
+    stage.addEventListener("click", handleClick, true);
+    stage.addEventListener("dblclick", handleDoubleClick);
+    return () => {
+      stage.removeEventListener("wheel", handleWheel);
+      stage.removeEventListener("pointerdown", handlePointerDown);
+      stage.removeEventListener("pointermove", handlePointerMove);
+      stage.removeEventListener("pointerup", handlePointerUp);
+      stage.removeEventListener("pointercancel", handlePointerUp);
+      stage.removeEventListener("pointerleave", handlePointerUp);
+      stage.removeEventListener("click", handleClick, true);
+      stage.removeEventListener("dblclick", handleDoubleClick);
+    };
+  }, [stageRef, enabled, update, reset]);
+
+  return { zoom, setZoom, reset };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { SyncEngine, type SyncEngineState } from "@/lib/sync-engine";
+
+// Owns a SyncEngine for the lifetime of the component and mirrors its
+// clock, playback state and speed into React state.
+export function useSyncEngine() {
+  const [engine] = useState(() => new SyncEngine());
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playbackState, setPlaybackState] =
+    useState<SyncEngineState>("paused");
+  const [rate, setRate] = useState(1);
+
+  useEffect(() => {
+    const unsubscribe = engine.subscribe(() => {
+      setCurrentTime(engine.currentTime);
+      setPlaybackState(engine.playbackState);
+      setRate(engine.playbackRate);
+    });
+    return () => {
+      unsubscribe();
+      engine.destroy();
+    };
+  }, [engine]);
+
+  return { engine, currentTime, playbackState, rate };
+}
@@ -0,0 +1,86 @@
+import { useEffect, useLayoutEffect, useMemo, useState } from "react";
+import { AdaptiveSource, playbackSrc } from "@/lib/adaptive-source";
+import type { SyncEngine } from "@/lib/sync-engine";
+import type { MatchCamera } from "@shared/schema";
+
+interface PooledVideo {
+  video: HTMLVideoElement;
+  source: AdaptiveSource;
+}
+
+// Creates one long-lived <video> element per camera and attaches it to the
+// sync engine. Elements are never remounted: VideoSlot moves them between
+// the main stage and the thumbnail rail, so every angle stays buffered and
+// switching never reloads a source. Angles on stage get the full
+// rendition ladder, the rest are capped low.
+export function useVideoPool(
+  engine: SyncEngine,
+  cameras: Pick<MatchCamera, "id" | "src" | "manifestSrc">[],
+  stageAngles: MatchCamera["id"][],
+) {
+  const stageKey = stageAngles.join("|");
+  const [pool] = useState(() => new Map<string, PooledVideo>());
+  const [version, setVersion] = useState(0);
+  const sourcesKey = cameras
+    .map((camera) => `${camera.id}=${playbackSrc(camera)}`)
+    .join("|");
+
+  useLayoutEffect(() => {
+    let changed = false;
+    const ids = new Set(cameras.map((camera) => camera.id));
+
+    pool.forEach(({ video, source }, id) => {
+      if (ids.has(id)) return;
+      engine.detach(id);
+      source.destroy();
+      video.remove();
+      pool.delete(id);
+      changed = true;
+    });
+
+    cameras.forEach((camera) => {
+      const role = stageAngles.includes(camera.id) ? "main" : "thumbnail";
+      const src = playbackSrc(camera);
+      let entry = pool.get(camera.id);
+      if (!entry) {
+        const video = document.createElement("video");
+        video.playsInline = true;
+        video.preload = "auto";
+        video.muted = true;
+        entry = { video, source: new AdaptiveSource(video, src, role) };
+        pool.set(camera.id, entry);
+        changed = true;
+      } else if (entry.source.src !== src) {
+        entry.source.destroy();
+        entry.source = new AdaptiveSource(entry.video, src, role);
+      }
+      engine.attach(camera.id, entry.video);
+    });
+
+    if (changed) setVersion((v) => v + 1);
+  }, [engine, pool, sourcesKey]);
+
+  useEffect(() => {
+    pool.forEach(({ source }, id) => {
+      source.setRole(stageAngles.includes(id) ? "main" : "thumbnail");
+    });
+    // stageKey stands in for the array, which is rebuilt every render
+  }, [pool, stageKey, version]);
+
+  useEffect(
+    () => () => {
+      pool.forEach(({ source }, id) => {
+        engine.detach(id);
+        source.destroy();
+      });
+      pool.clear();
+    },
+    [engine, pool],
+  );
+
+  return useMemo(
+    () =>
+      new Map(Array.from(pool, ([id, { video }]) => [id, video] as const)),
+    [pool, version],
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from "react";
+import { viewerLayouts, type ViewerLayout } from "@shared/schema";
+
+// The address bar follows the view at most this often, so playback and
+// scrubbing do not rewrite history every frame
+const URL_UPDATE_INTERVAL_MS = 500;
+
+export interface ViewerUrlState {
+  angle: string | null;
+  time: number | null;
+  rate: number | null;
+  layout: ViewerLayout | null;
+}
+
+// Reads ?angle=&t=&rate=&layout= from a query string. Anything missing or
+// malformed is null and falls back to the viewer's default.
+export function parseViewerUrl(search: string): ViewerUrlState {
+  const params = new URLSearchParams(search);
+  const time = Number(params.get("t"));
+  const rate = Number(params.get("rate"));
+  const layout = params.get("layout");
+  return {
+    angle: params.get("angle") || null,
+    time: params.has("t") && isFinite(time) && time >= 0 ? time : null,
+    rate: params.has("rate") && isFinite(rate) && rate > 0 ? rate : null,
+    layout: viewerLayouts.find((known) => known === layout) ?? null,
+  };
+}
+
+// The angle named in a URL: a camera id, or "angleN" for the Nth camera
+export function resolveUrlAngle(
+  angle: string | null,
+  angles: string[],
+): string | null {
+  if (!angle) return null;
+  if (angles.includes(angle)) return angle;
+  const match = /^angle(\d+)$/.exec(angle);
+  return match ? (angles[Number(match[1]) - 1] ?? null) : null;
+}
+
+export interface ViewerUrlView {
+  angle: string;
+  time: number;
+  rate: number;
+  layout: ViewerLayout;
+}
+
+export function viewerUrl(path: string, view: ViewerUrlView): string {
+  const params = new URLSearchParams({ angle: view.angle });
+  if (view.time > 0) params.set("t", view.time.toFixed(1));
+  if (view.rate !== 1) params.set("rate", String(view.rate));
+  if (view.layout !== "single") params.set("layout", view.layout);
+  return `${path}?${params}`;
+}
+
+// Keeps the address bar pointing at what is on screen. Updates replace the
+// current history entry and are batched: the first change starts a timer,
+// and when it fires the latest view is written.
+export function useViewerUrl(path: string | undefined, view: ViewerUrlView) {
+  const url = path ? viewerUrl(path, view) : null;
+  const latestUrlRef = useRef(url);
+  latestUrlRef.current = url;
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (!url || timeoutRef.current) return;
+    timeoutRef.current = setTimeout(() => {
+      timeoutRef.current = null;
+      const latest = latestUrlRef.current;
+      const current = `${window.location.pathname}${window.location.search}`;
+      if (latest && latest !== current) {
+        window.history.replaceState(window.history.state, "", latest);
+      }
+    }, URL_UPDATE_INTERVAL_MS);
+  }, [url]);
+
+  useEffect(
+    () => () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    },
+    [],
+  );
+}
@@ -0,0 +1,130 @@
+import type Hls from "hls.js";
+import type { MediaPlayerClass } from "dashjs";
+import type { MatchCamera } from "@shared/schema";
+
+/* =============================================================================
+ * ADAPTIVE SOURCES
+ * =============================================================================
+ * A camera's src may be a progressive file (MP4), an HLS manifest (.m3u8)
+ * or a DASH manifest (.mpd). Manifests are played through hls.js / dash.js,
+ * which are only downloaded when a match actually uses them.
+ *
+ * The angle on stage gets the full bitrate ladder; thumbnail angles are
+ * capped at a low rendition so a match with many cameras does not pull
+ * several full-bitrate streams at once.
+ * ============================================================================= */
+const THUMBNAIL_MAX_HEIGHT = 360;
+const THUMBNAIL_MAX_BITRATE_KBPS = 800;
+
+export type StreamType = "hls" | "dash" | "progressive";
+export type RenditionRole = "main" | "thumbnail";
+
+export function detectStreamType(src: string): StreamType {
+  const path = src.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith(".m3u8")) return "hls";
+  if (path.endsWith(".mpd")) return "dash";
+  return "progressive";
+}
+
+// Transcoded cameras play their HLS ladder; the rest play src as given
+export function playbackSrc(
+  camera: Pick<MatchCamera, "src" | "manifestSrc">,
+): string {
+  return camera.manifestSrc ?? camera.src;
+}
+
+export class AdaptiveSource {
+  private hls: Hls | null = null;
+  private dash: MediaPlayerClass | null = null;
+  private destroyed = false;
+
+  constructor(
+    private video: HTMLVideoElement,
+    readonly src: string,
+    private role: RenditionRole,
+  ) {
+    const type = detectStreamType(src);
+    if (type === "hls") {
+      this.loadHls();
+    } else if (type === "dash") {
+      this.loadDash();
+    } else {
+      video.src = src;
+    }
+  }
+
+  setRole(role: RenditionRole) {
+    if (role === this.role) return;
+    this.role = role;
+    this.applyRole();
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.hls?.destroy();
+    this.dash?.reset();
+    this.video.removeAttribute("src");
+    this.video.load();
+  }
+
+  private async loadHls() {
+    const { default: HlsPlayer } = await import("hls.js");
+    if (this.destroyed) return;
+
+    // Safari plays HLS natively, without rendition control
+    if (!HlsPlayer.isSupported()) {
+      this.video.src = this.src;
+      return;
+    }
+
+    const hls = new HlsPlayer({ capLevelToPlayerSize: true });
+    hls.on(HlsPlayer.Events.MANIFEST_PARSED, () => this.applyRole());
+    hls.loadSource(this.src);
+    hls.attachMedia(this.video);
+    this.hls = hls;
+  }
+
+  private async loadDash() {
+    const { MediaPlayer } = await import("dashjs");
+    if (this.destroyed) return;
+
+    const player = MediaPlayer().create();
+    player.initialize(this.video, this.src, false);
+    this.dash = player;
+    this.applyRole();
+  }
+
+  private applyRole() {
+    const isThumbnail = this.role === "thumbnail";
+
+    if (this.hls) {
+      const levels = this.hls.levels;
+      const cap = isThumbnail
+        ? Math.max(
+            0,
+            levels.findLastIndex(
+              (level) => level.height > 0 && level.height <= THUMBNAIL_MAX_HEIGHT,
+            ),
+          )
+        : -1;
+      this.hls.autoLevelCapping = cap;
+      // Demoted angles drop to the capped rendition from the next fragment;
+      // promoted angles climb the ladder as the ABR controller allows
+      if (cap >= 0 && this.hls.nextLoadLevel > cap) {
+        this.hls.nextLoadLevel = cap;
+      }
+    }
+
+    if (this.dash) {
+      this.dash.updateSettings({
+        streaming: {
+          abr: {
+            maxBitrate: {
+              video: isThumbnail ? THUMBNAIL_MAX_BITRATE_KBPS : -1,
+            },
+          },
+        },
+      });
+    }
+  }
+}
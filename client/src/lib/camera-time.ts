@@ -0,0 +1,38 @@
+import type { MatchCamera } from "@shared/schema";
+
+// fps is only needed where frames matter (see cameraFps)
+export type CameraTiming = Pick<MatchCamera, "offset" | "driftRate"> &
+  Partial<Pick<MatchCamera, "fps">>;
+
+// Footage without a recorded frame rate is treated as 30fps
+export const DEFAULT_FPS = 30;
+
+export function cameraFps(camera: Partial<Pick<MatchCamera, "fps">>): number {
+  return camera.fps && camera.fps > 0 ? camera.fps : DEFAULT_FPS;
+}
+
+// The index of the frame showing at a media time. The small tolerance
+// keeps a time parked exactly on a frame boundary (or a hair before it,
+// after float rounding) on that frame.
+export function frameAt(fps: number, mediaTime: number): number {
+  return Math.floor(mediaTime * fps + 1e-3);
+}
+
+// The middle of a frame. Seeking there rather than to the frame's start
+// shows that frame whatever way the decoder rounds the time.
+export function frameCenter(fps: number, frame: number): number {
+  return (Math.max(0, frame) + 0.5) / fps;
+}
+
+// Maps a position on the master timeline to the matching time in one
+// camera's file. Cameras that started after the master clock have no
+// footage before their offset, so they hold on their first frame.
+export function toMediaTime(camera: CameraTiming, masterTime: number): number {
+  return Math.max(0, camera.offset + masterTime * (1 + camera.driftRate));
+}
+
+// Inverse of toMediaTime: where a camera's media time falls on the master
+// timeline.
+export function toMasterTime(camera: CameraTiming, mediaTime: number): number {
+  return (mediaTime - camera.offset) / (1 + camera.driftRate);
+}
@@ -0,0 +1,328 @@
+import { AdaptiveSource, playbackSrc } from "@/lib/adaptive-source";
+import { toMasterTime, toMediaTime } from "@/lib/camera-time";
+import {
+  scoreBugRows,
+  type ScoreBugCellKind,
+  type ScoreBugData,
+} from "@/lib/score-bug";
+import type { MatchCamera } from "@shared/schema";
+
+/* =============================================================================
+ * CLIP EXPORT
+ * =============================================================================
+ * Clips are recorded in the browser. The angle plays through the span in a
+ * detached video element; every animation frame its picture is drawn onto
+ * a canvas with the score bug painted over it as it stood at that moment,
+ * and the canvas and the video's sound are recorded with MediaRecorder.
+ * Recording runs in real time, so a ten-second clip takes ten seconds, and
+ * the tab has to stay in front while it runs.
+ * ============================================================================= */
+const FRAME_RATE = 30;
+// Adaptive streams start low on the ladder and climb, so the clip is not
+// sized by whichever rendition happens to play first
+const MIN_CLIP_HEIGHT = 720;
+// The first of these the browser can record is used
+const RECORDING_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+// The score bug is laid out in pixels of a 720-line frame, then scaled to
+// the clip, so it covers the same share of the picture as in the viewer
+const BUG_REFERENCE_HEIGHT = 720;
+const BUG_MARGIN = 16;
+const BUG_PADDING_X = 12;
+const BUG_PADDING_Y = 6;
+const BUG_ROW_HEIGHT = 20;
+const BUG_ROW_GAP = 2;
+const BUG_GAP = 8;
+const BUG_DOT = 6;
+const BUG_NAME_MAX_WIDTH = 160;
+const BUG_FONT_SIZE = 14;
+// How each kind of cell is drawn, to match the viewer's ScoreBug
+const BUG_CELLS: Record<
+  ScoreBugCellKind,
+  { width: number; weight: number; filled: boolean }
+> = {
+  set: { width: 16, weight: 400, filled: false },
+  games: { width: 16, weight: 600, filled: false },
+  points: { width: 32, weight: 400, filled: true },
+};
+
+export interface ClipRequest {
+  camera: MatchCamera;
+  // The span to record, on the master timeline
+  start: number;
+  end: number;
+  // Painted over the footage unless null
+  score: ScoreBugData | null;
+  signal: AbortSignal;
+  // Told how much of the span has been recorded, from 0 to 1
+  onProgress: (fraction: number) => void;
+}
+
+function recordingType(): string | undefined {
+  return RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function canExportClips(): boolean {
+  return (
+    typeof MediaRecorder !== "undefined" &&
+    typeof AudioContext !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype &&
+    recordingType() !== undefined
+  );
+}
+
+// The extension a recording of this type is saved with
+export function clipExtension(blob: Blob): string {
+  return blob.type.startsWith("video/mp4") ? "mp4" : "webm";
+}
+
+// Resolves on the video's next event of this type; rejects if it fails to
+// load or the export is cancelled first
+function nextEvent(
+  video: HTMLVideoElement,
+  type: keyof HTMLMediaElementEventMap,
+  signal: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(type, done);
+      video.removeEventListener("error", fail);
+      signal.removeEventListener("abort", fail);
+    };
+    const done = () => {
+      cleanup();
+      resolve();
+    };
+    const fail = () => {
+      cleanup();
+      reject(new Error("The footage could not be loaded"));
+    };
+    if (signal.aborted) return fail();
+    video.addEventListener(type, done);
+    video.addEventListener("error", fail);
+    signal.addEventListener("abort", fail);
+  });
+}
+
+// Records the camera's footage between start and end
+export async function exportClip({
+  camera,
+  start,
+  end,
+  score,
+  signal,
+  onProgress,
+}: ClipRequest): Promise<Blob> {
+  const video = document.createElement("video");
+  video.playsInline = true;
+  video.preload = "auto";
+  const source = new AdaptiveSource(video, playbackSrc(camera), "main");
+  const audio = new AudioContext();
+  let recorder: MediaRecorder | null = null;
+
+  try {
+    const mediaStart = toMediaTime(camera, start);
+    const mediaEnd = toMediaTime(camera, end);
+    if (video.readyState < HTMLMediaElement.HAVE_METADATA) {
+      await nextEvent(video, "loadedmetadata", signal);
+    }
+    video.currentTime = mediaStart;
+    await nextEvent(video, "seeked", signal);
+
+    const canvas = document.createElement("canvas");
+    canvas.height = Math.max(video.videoHeight, MIN_CLIP_HEIGHT);
+    canvas.width = Math.round(
+      (canvas.height * video.videoWidth) / video.videoHeight,
+    );
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("This browser cannot draw the clip");
+    const style = bugStyle();
+    const drawFrame = () => {
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      if (score) {
+        drawScoreBug(
+          context,
+          style,
+          score,
+          toMasterTime(camera, video.currentTime),
+        );
+      }
+    };
+
+    // The sound goes into the recording only, not out of the speakers
+    const sound = audio.createMediaStreamDestination();
+    audio.createMediaElementSource(video).connect(sound);
+    const stream = new MediaStream(
+      canvas
+        .captureStream(FRAME_RATE)
+        .getVideoTracks()
+        .concat(sound.stream.getAudioTracks()),
+    );
+    const chunks: Blob[] = [];
+    const activeRecorder = new MediaRecorder(stream, {
+      mimeType: recordingType(),
+    });
+    recorder = activeRecorder;
+    activeRecorder.ondataavailable = (e) => chunks.push(e.data);
+    const stopped = new Promise<void>((resolve) => {
+      activeRecorder.onstop = () => resolve();
+    });
+
+    drawFrame();
+    activeRecorder.start();
+    await audio.resume();
+    await video.play();
+    await new Promise<void>((resolve, reject) => {
+      const fail = () => {
+        cancelAnimationFrame(handle);
+        reject(new Error("The footage could not be played"));
+      };
+      video.addEventListener("error", fail);
+      signal.addEventListener("abort", fail);
+      let handle = requestAnimationFrame(function tick() {
+        drawFrame();
+        onProgress(
+          Math.min(
+            1,
+            (video.currentTime - mediaStart) / (mediaEnd - mediaStart),
+          ),
+        );
+        if (video.currentTime >= mediaEnd || video.ended) {
+          video.removeEventListener("error", fail);
+          signal.removeEventListener("abort", fail);
+          resolve();
+        } else {
+          handle = requestAnimationFrame(tick);
+        }
+      });
+    });
+
+    activeRecorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: activeRecorder.mimeType });
+  } finally {
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    video.pause();
+    source.destroy();
+    audio.close();
+  }
+}
+
+interface BugStyle {
+  // HSL components of the theme colours, as in index.css
+  primary: string;
+  primaryForeground: string;
+  sansFont: string;
+  monoFont: string;
+}
+
+function bugStyle(): BugStyle {
+  const root = getComputedStyle(document.documentElement);
+  const value = (name: string, fallback: string) =>
+    root.getPropertyValue(name).trim() || fallback;
+  return {
+    primary: value("--primary", "142 86% 28%"),
+    primaryForeground: value("--primary-foreground", "142 86% 98%"),
+    sansFont: value("--font-sans", "sans-serif"),
+    monoFont: value("--font-mono", "monospace"),
+  };
+}
+
+// The text cut down with an ellipsis to fit the width
+function fitText(
+  context: CanvasRenderingContext2D,
+  text: string,
+  width: number,
+): string {
+  if (context.measureText(text).width <= width) return text;
+  let fitted = text;
+  while (fitted && context.measureText(`${fitted}…`).width > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+// Paints the score bug's rows (see lib/score-bug.ts) in the frame's
+// top-left corner, laid out like the viewer's ScoreBug
+function drawScoreBug(
+  context: CanvasRenderingContext2D,
+  style: BugStyle,
+  score: ScoreBugData,
+  time: number,
+) {
+  const rows = scoreBugRows(score, time);
+  const names = rows.map((row) => row.name.toUpperCase());
+
+  context.save();
+  const scale = context.canvas.height / BUG_REFERENCE_HEIGHT;
+  context.scale(scale, scale);
+  context.textBaseline = "middle";
+
+  context.font = `500 ${BUG_FONT_SIZE}px ${style.sansFont}`;
+  const nameWidth = Math.min(
+    BUG_NAME_MAX_WIDTH,
+    Math.max(...names.map((name) => context.measureText(name).width)),
+  );
+  // Both rows have the same cells
+  const cellsWidth = rows[0].cells.reduce(
+    (total, cell) => total + BUG_GAP + BUG_CELLS[cell.kind].width,
+    0,
+  );
+  const width = BUG_PADDING_X * 2 + BUG_DOT + BUG_GAP + nameWidth + cellsWidth;
+  const height =
+    BUG_PADDING_Y * 2 +
+    BUG_ROW_HEIGHT * rows.length +
+    BUG_ROW_GAP * (rows.length - 1);
+
+  context.fillStyle = "rgba(0, 0, 0, 0.6)";
+  context.beginPath();
+  context.roundRect(BUG_MARGIN, BUG_MARGIN, width, height, 6);
+  context.fill();
+
+  rows.forEach((row, i) => {
+    const top = BUG_MARGIN + BUG_PADDING_Y + i * (BUG_ROW_HEIGHT + BUG_ROW_GAP);
+    const middle = top + BUG_ROW_HEIGHT / 2;
+    let x = BUG_MARGIN + BUG_PADDING_X;
+
+    if (row.isServing) {
+      context.fillStyle = `hsl(${style.primary})`;
+      context.beginPath();
+      context.arc(x + BUG_DOT / 2, middle, BUG_DOT / 2, 0, Math.PI * 2);
+      context.fill();
+    }
+    x += BUG_DOT + BUG_GAP;
+
+    context.font = `500 ${BUG_FONT_SIZE}px ${style.sansFont}`;
+    context.textAlign = "left";
+    context.fillStyle = "white";
+    context.fillText(fitText(context, names[i], nameWidth), x, middle);
+    x += nameWidth;
+
+    context.textAlign = "center";
+    row.cells.forEach((cell) => {
+      const { width: cellWidth, weight, filled } = BUG_CELLS[cell.kind];
+      x += BUG_GAP;
+      if (filled) {
+        context.fillStyle = `hsl(${style.primary} / 0.8)`;
+        context.beginPath();
+        context.roundRect(x, top + 1, cellWidth, BUG_ROW_HEIGHT - 2, 2);
+        context.fill();
+      }
+      context.font = `${weight} ${BUG_FONT_SIZE}px ${style.monoFont}`;
+      context.fillStyle = filled
+        ? `hsl(${style.primaryForeground})`
+        : cell.faded
+          ? "rgba(255, 255, 255, 0.5)"
+          : "white";
+      context.fillText(cell.text, x + cellWidth / 2, middle);
+      x += cellWidth;
+    });
+  });
+
+  context.restore();
+}
@@ -0,0 +1,178 @@
+import type { TrackSample, TrackSubject } from "@shared/schema";
+import { clampZoom, type StageZoom } from "@/lib/stage-zoom";
+
+/* =============================================================================
+ * FOLLOW CAMERA
+ * =============================================================================
+ * Steers the zoomed crop of the stage along imported tracking data the way
+ * a camera operator would: the subject may wander around the middle of the
+ * view without the crop moving, and once it leaves that dead zone the crop
+ * eases after it rather than snapping. Zoom eases more slowly than pan, as
+ * an operator reframes less often than they pan.
+ *
+ * Positions are fractions of the stage, like the stage zoom's; boxes from
+ * the tracker are fractions of the camera's frame and are mapped through
+ * the letterboxing of the video on stage.
+ * ============================================================================= */
+
+// Gaps longer than this between samples mean the tracker lost the subject
+const MAX_SAMPLE_GAP_SECONDS = 0.5;
+// The ball is small and quick, so it is followed at a fixed, wider zoom
+const BALL_ZOOM = 2;
+// A player's box is framed to fill this share of the view
+const PLAYER_FRAMING = 0.45;
+const MIN_FOLLOW_ZOOM = 1.5;
+// Half-width of the dead zone, as a share of the visible region
+const DEAD_ZONE = 0.15;
+// Roughly how long the crop takes to catch up, in seconds
+const PAN_SMOOTH_TIME = 0.45;
+const ZOOM_SMOOTH_TIME = 1.2;
+// A jump of the clock further than this (a seek) cuts straight to the subject
+const CUT_SECONDS = 1;
+
+// The subject's box at a time in the camera's file, interpolated between
+// the samples either side. Null before the first sample, after the last
+// and while the tracker had lost the subject.
+export function trackBoxAt(
+  samples: TrackSample[],
+  mediaTime: number,
+): TrackSample | null {
+  if (samples.length === 0) return null;
+  if (mediaTime < samples[0].t) return null;
+  if (mediaTime > samples[samples.length - 1].t) return null;
+
+  // The last sample at or before mediaTime
+  let low = 0;
+  let high = samples.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (samples[mid].t <= mediaTime) low = mid;
+    else high = mid - 1;
+  }
+
+  const before = samples[low];
+  const after = samples[low + 1];
+  if (!after) return before;
+  if (after.t - before.t > MAX_SAMPLE_GAP_SECONDS) return null;
+
+  const k = (mediaTime - before.t) / (after.t - before.t);
+  const lerp = (a: number, b: number) => a + (b - a) * k;
+  return {
+    t: mediaTime,
+    x: lerp(before.x, after.x),
+    y: lerp(before.y, after.y),
+    w: lerp(before.w, after.w),
+    h: lerp(before.h, after.h),
+  };
+}
+
+// The view that frames a box, given the stage's size and the video's
+export function framingFor(
+  box: TrackSample,
+  subject: TrackSubject,
+  stage: { width: number; height: number },
+  video: { width: number; height: number },
+): StageZoom {
+  // object-contain letterboxing: the share of the stage the frame covers
+  const fit = Math.min(stage.width / video.width, stage.height / video.height);
+  const frameWidth = (video.width * fit) / stage.width;
+  const frameHeight = (video.height * fit) / stage.height;
+  const left = (1 - frameWidth) / 2;
+  const top = (1 - frameHeight) / 2;
+
+  const scale =
+    subject === "ball"
+      ? BALL_ZOOM
+      : Math.max(
+          MIN_FOLLOW_ZOOM,
+          PLAYER_FRAMING / Math.max(box.w * frameWidth, box.h * frameHeight),
+        );
+  return {
+    scale,
+    x: left + (box.x + box.w / 2) * frameWidth,
+    y: top + (box.y + box.h / 2) * frameHeight,
+  };
+}
+
+// Critically damped spring towards target; returns the new value and
+// velocity (after Game Programming Gems 4, "Critically Damped Ease-In/Out
+// Smoothing")
+function smoothDamp(
+  current: number,
+  target: number,
+  velocity: number,
+  smoothTime: number,
+  dt: number,
+): [number, number] {
+  const omega = 2 / smoothTime;
+  const x = omega * dt;
+  const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+  const change = current - target;
+  const temp = (velocity + omega * change) * dt;
+  return [target + (change + temp) * decay, (velocity - omega * temp) * decay];
+}
+
+export class FollowCamera {
+  private view: StageZoom;
+  private aim: { x: number; y: number };
+  private velocity = { scale: 0, x: 0, y: 0 };
+  private lastTime: number | null = null;
+
+  constructor(start: StageZoom) {
+    this.view = clampZoom(start);
+    this.aim = { x: start.x, y: start.y };
+  }
+
+  // Moves the view one step towards framing target (null while the
+  // subject is lost, which holds the view). time is the playback clock
+  // and dt the wall-clock seconds since the last step.
+  step(target: StageZoom | null, time: number, dt: number): StageZoom {
+    const cut =
+      this.lastTime !== null && Math.abs(time - this.lastTime) > CUT_SECONDS;
+    this.lastTime = time;
+    if (!target) return this.view;
+
+    if (cut) {
+      this.view = clampZoom(target);
+      this.aim = { x: target.x, y: target.y };
+      this.velocity = { scale: 0, x: 0, y: 0 };
+      return this.view;
+    }
+
+    // The aim only moves to keep the subject inside the dead zone
+    const zone = DEAD_ZONE / this.view.scale;
+    const follow = (aim: number, subject: number) =>
+      Math.min(subject + zone, Math.max(subject - zone, aim));
+    this.aim = {
+      x: follow(this.aim.x, target.x),
+      y: follow(this.aim.y, target.y),
+    };
+
+    const [x, vx] = smoothDamp(
+      this.view.x,
+      this.aim.x,
+      this.velocity.x,
+      PAN_SMOOTH_TIME,
+      dt,
+    );
+    const [y, vy] = smoothDamp(
+      this.view.y,
+      this.aim.y,
+      this.velocity.y,
+      PAN_SMOOTH_TIME,
+      dt,
+    );
+    const [scale, vs] = smoothDamp(
+      this.view.scale,
+      target.scale,
+      this.velocity.scale,
+      ZOOM_SMOOTH_TIME,
+      dt,
+    );
+    // Held on the stage, so the crop never slides off the edge of the
+    // picture after a subject near it
+    this.view = clampZoom({ scale, x, y });
+    this.velocity = { scale: vs, x: vx, y: vy };
+    return this.view;
+  }
+}
@@ -0,0 +1,10 @@
+// Whether a key press is going into something the user is typing in or
+// choosing from, which page shortcuts must leave alone
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { PlayerSide, Point } from "@shared/schema";
+import { scoreBugRows } from "./score-bug";
+
+// Points won in turn by the sides given, ten seconds apart, A serving
+function timeline(winners: PlayerSide[]): Point[] {
+  return winners.map((winner, i) => ({
+    id: `point-${i}`,
+    matchId: "match",
+    startTime: i * 10,
+    endTime: i * 10 + 5,
+    setNumber: 1,
+    gameNumber: 1,
+    server: 0,
+    winner,
+    shotType: null,
+    createdAt: new Date(0),
+  }));
+}
+
+describe("scoreBugRows", () => {
+  it("lays out a row per side: finished sets, games, then points", () => {
+    // A takes a set to love, then the first point of the next game
+    const winners: PlayerSide[] = Array.from({ length: 25 }, () => 0);
+    const rows = scoreBugRows(
+      { points: timeline(winners), players: ["Ana"], noAd: false },
+      Infinity,
+    );
+
+    expect(rows.map((row) => row.name)).toEqual(["Ana", "Player B"]);
+    expect(rows[0].cells).toEqual([
+      { kind: "set", text: "6", faded: false },
+      { kind: "games", text: "0", faded: false },
+      { kind: "points", text: "15", faded: false },
+    ]);
+    expect(rows[1].cells.map((cell) => [cell.text, cell.faded])).toEqual([
+      ["0", true],
+      ["0", false],
+      ["0", false],
+    ]);
+  });
+
+  it("marks the side serving the point in play", () => {
+    const rows = scoreBugRows(
+      { points: timeline([0, 1]), players: [], noAd: false },
+      0,
+    );
+    expect(rows.map((row) => row.isServing)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  gamePointCalls,
+  otherSide,
+  scoreAtTime,
+  sideName,
+} from "@/lib/scoring";
+import type { PlayerSide, Point } from "@shared/schema";
+
+/* =============================================================================
+ * SCORE BUG
+ * =============================================================================
+ * What the broadcast-style score shows at a moment of the match, cell by
+ * cell. The viewer's overlay (components/score-bug.tsx) and the one painted
+ * onto exported clips (lib/clip-export.ts) both draw these rows, so they
+ * always agree on what is shown and in what order; each only decides how a
+ * kind of cell looks.
+ * ============================================================================= */
+
+// A finished set's games, the current set's games, or the points of the
+// game being played
+export type ScoreBugCellKind = "set" | "games" | "points";
+
+export interface ScoreBugCell {
+  kind: ScoreBugCellKind;
+  text: string;
+  // Set the side lost, shown dimmed
+  faded: boolean;
+}
+
+export interface ScoreBugRow {
+  side: PlayerSide;
+  name: string;
+  isServing: boolean;
+  cells: ScoreBugCell[];
+}
+
+export interface ScoreBugData {
+  // The match's points in timeline order
+  points: Point[];
+  players: string[];
+  noAd: boolean;
+}
+
+const SIDES: PlayerSide[] = [0, 1];
+
+// A row per side: its name, whether it serves, then a cell for the games of
+// each finished set, the current set's games and the current points.
+// Worked out afresh from the points over by the time, so it reads right
+// after scrubbing either way.
+export function scoreBugRows(
+  { points, players, noAd }: ScoreBugData,
+  time: number,
+): ScoreBugRow[] {
+  const score = scoreAtTime(points, time, noAd);
+  const calls = gamePointCalls(score);
+
+  return SIDES.map((side) => ({
+    side,
+    name: sideName(players, side),
+    isServing: score.server === side,
+    cells: [
+      ...score.sets.map((set): ScoreBugCell => ({
+        kind: "set",
+        text: String(set[side]),
+        faded: set[side] <= set[otherSide(side)],
+      })),
+      { kind: "games", text: String(score.games[side]), faded: false },
+      { kind: "points", text: calls[side], faded: false },
+    ],
+  }));
+}
@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import type { PlayerSide, Point } from "@shared/schema";
+import {
+  adjacentPoint,
+  gamePointCalls,
+  runningScore,
+  scoreAtTime,
+} from "./scoring";
+
+// Who served and who won a point; everything else is filled in
+type Rally = [server: PlayerSide, winner: PlayerSide];
+
+const A: PlayerSide = 0;
+const B: PlayerSide = 1;
+
+// The rallies as points ten seconds apart, each lasting five seconds
+function timeline(rallies: Rally[]): Point[] {
+  return rallies.map(([server, winner], i) => ({
+    id: `point-${i}`,
+    matchId: "match",
+    startTime: i * 10,
+    endTime: i * 10 + 5,
+    setNumber: 1,
+    gameNumber: 1,
+    server,
+    winner,
+    shotType: null,
+    createdAt: new Date(0),
+  }));
+}
+
+// A game won to love by winner, served by server
+function game(server: PlayerSide, winner: PlayerSide): Rally[] {
+  return Array.from({ length: 4 }, (): Rally => [server, winner]);
+}
+
+// Twelve games shared 6-6, each side holding serve, A serving first
+const TO_SIX_ALL: Rally[] = Array.from({ length: 12 }, (_, i) => {
+  const server: PlayerSide = i % 2 === 0 ? A : B;
+  return game(server, server);
+}).flat();
+
+function callsAfter(rallies: Rally[], noAd = false): [string, string] {
+  return gamePointCalls(runningScore(timeline(rallies), noAd));
+}
+
+describe("gamePointCalls", () => {
+  it("calls deuce, advantage and back to deuce", () => {
+    const deuce: Rally[] = [
+      [A, A],
+      [A, A],
+      [A, A],
+      [A, B],
+      [A, B],
+      [A, B],
+    ];
+    expect(callsAfter(deuce)).toEqual(["40", "40"]);
+    expect(callsAfter([...deuce, [A, A]])).toEqual(["AD", "40"]);
+    expect(callsAfter([...deuce, [A, A], [A, B]])).toEqual(["40", "40"]);
+    expect(callsAfter([...deuce, [A, B]])).toEqual(["40", "AD"]);
+
+    const score = runningScore(timeline([...deuce, [A, A], [A, B]]), false);
+    expect(score.games).toEqual([0, 0]);
+  });
+
+  it("calls tiebreak points as plain counts", () => {
+    expect(callsAfter([...TO_SIX_ALL, [A, A], [B, A], [B, B]])).toEqual([
+      "2",
+      "1",
+    ]);
+  });
+});
+
+describe("runningScore", () => {
+  it("needs two clear points to win a game", () => {
+    const score = runningScore(
+      timeline([
+        [A, A],
+        [A, A],
+        [A, A],
+        [A, B],
+        [A, B],
+        [A, B],
+        [A, A],
+      ]),
+      false,
+    );
+    expect(score.games).toEqual([0, 0]);
+    expect(score.points).toEqual([4, 3]);
+  });
+
+  it("settles a no-ad game on the deciding point at deuce", () => {
+    const rallies: Rally[] = [
+      [A, A],
+      [A, A],
+      [A, A],
+      [A, B],
+      [A, B],
+      [A, B],
+      [A, B],
+    ];
+    const score = runningScore(timeline(rallies), true);
+    expect(score.games).toEqual([0, 1]);
+    expect(score.points).toEqual([0, 0]);
+    expect(score.gameNumber).toBe(2);
+    expect(score.server).toBe(B);
+
+    expect(runningScore(timeline(rallies), false).games).toEqual([0, 0]);
+  });
+
+  it("passes the serve each game", () => {
+    expect(runningScore(timeline(game(A, A)), false).server).toBe(B);
+    expect(
+      runningScore(timeline([...game(A, A), ...game(B, A)]), false).server,
+    ).toBe(A);
+  });
+
+  it("goes to a tiebreak at six games all", () => {
+    const score = runningScore(timeline(TO_SIX_ALL), false);
+    expect(score.games).toEqual([6, 6]);
+    expect(score.isTiebreak).toBe(true);
+    expect(score.sets).toEqual([]);
+    // B served the twelfth game, so A serves first in the tiebreak
+    expect(score.server).toBe(A);
+  });
+
+  it("plays the tiebreak to seven by two", () => {
+    // Six points each, alternating, then A goes ahead by one and by two
+    const sixAll: Rally[] = Array.from({ length: 12 }, (_, i): Rally => [
+      A,
+      i % 2 === 0 ? A : B,
+    ]);
+    const atSevenSix = runningScore(
+      timeline([...TO_SIX_ALL, ...sixAll, [A, A]]),
+      false,
+    );
+    expect(atSevenSix.isTiebreak).toBe(true);
+    expect(atSevenSix.points).toEqual([7, 6]);
+    expect(atSevenSix.sets).toEqual([]);
+
+    const won = runningScore(
+      timeline([...TO_SIX_ALL, ...sixAll, [A, A], [A, A]]),
+      false,
+    );
+    expect(won.sets).toEqual([[7, 6]]);
+    expect(won.isTiebreak).toBe(false);
+  });
+
+  it("changes tiebreak serve after the first point, then every two", () => {
+    const servers: PlayerSide[] = [];
+    const tiebreak: Rally[] = [];
+    for (let i = 0; i < 6; i++) {
+      tiebreak.push([A, A]);
+      servers.push(
+        runningScore(timeline([...TO_SIX_ALL, ...tiebreak]), false).server,
+      );
+    }
+    expect(servers).toEqual([B, B, A, A, B, B]);
+  });
+
+  it("hands the next set's serve to whoever received first in the tiebreak", () => {
+    const tiebreak = Array.from({ length: 7 }, (): Rally => [A, A]);
+    const score = runningScore(timeline([...TO_SIX_ALL, ...tiebreak]), false);
+    expect(score.sets).toEqual([[7, 6]]);
+    expect(score.server).toBe(B);
+  });
+
+  it("rolls over to the next set once a side has six games by two", () => {
+    const games = (count: number, winner: PlayerSide) =>
+      Array.from({ length: count }, (_, i) =>
+        game(i % 2 === 0 ? A : B, winner),
+      ).flat();
+
+    const atSixFive = runningScore(
+      timeline([...games(5, A), ...games(5, B), ...games(1, A)]),
+      false,
+    );
+    expect(atSixFive.games).toEqual([6, 5]);
+    expect(atSixFive.setNumber).toBe(1);
+
+    const atSevenFive = runningScore(
+      timeline([...games(5, A), ...games(5, B), ...games(2, A)]),
+      false,
+    );
+    expect(atSevenFive.sets).toEqual([[7, 5]]);
+    expect(atSevenFive.setNumber).toBe(2);
+
+    const score = runningScore(timeline(games(6, A)), false);
+    expect(score.sets).toEqual([[6, 0]]);
+    expect(score.games).toEqual([0, 0]);
+    expect(score.points).toEqual([0, 0]);
+    expect(score.setNumber).toBe(2);
+    expect(score.gameNumber).toBe(1);
+  });
+});
+
+describe("adjacentPoint", () => {
+  // Points start at 0, 10 and 20 and each ends five seconds later
+  const points = timeline([
+    [A, A],
+    [A, A],
+    [A, B],
+  ]);
+  const startOf = (point: Point | undefined) => point?.startTime;
+
+  it("steps forward to the next point to start", () => {
+    expect(startOf(adjacentPoint(points, 3, 1))).toBe(10);
+    expect(startOf(adjacentPoint(points, 9.9, 1))).toBe(10);
+    expect(adjacentPoint(points, 25, 1)).toBeUndefined();
+  });
+
+  it("counts a time within EPSILON of a start as at that start", () => {
+    expect(startOf(adjacentPoint(points, 10, 1))).toBe(20);
+    expect(startOf(adjacentPoint(points, 9.96, 1))).toBe(20);
+  });
+
+  it("steps back to the start of the current point", () => {
+    expect(startOf(adjacentPoint(points, 13, -1))).toBe(10);
+    expect(startOf(adjacentPoint(points, 11.01, -1))).toBe(10);
+  });
+
+  it("steps back past a point started less than a second ago", () => {
+    expect(startOf(adjacentPoint(points, 10.5, -1))).toBe(0);
+    expect(startOf(adjacentPoint(points, 11, -1))).toBe(0);
+    expect(adjacentPoint(points, 0.5, -1)).toBeUndefined();
+  });
+});
+
+describe("scoreAtTime", () => {
+  // A wins the points ending at 5 and 15, B the one ending at 25; the
+  // third is served by B
+  const points = timeline([
+    [A, A],
+    [A, A],
+    [B, B],
+  ]);
+
+  it("counts only the points over by the time", () => {
+    expect(scoreAtTime(points, 4.99, false).points).toEqual([0, 0]);
+    expect(scoreAtTime(points, 5, false).points).toEqual([1, 0]);
+    expect(scoreAtTime(points, 12, false).points).toEqual([1, 0]);
+    expect(scoreAtTime(points, 25, false).points).toEqual([2, 1]);
+  });
+
+  it("takes points off again when scrubbing back past their end", () => {
+    expect(scoreAtTime(points, 30, false).points).toEqual([2, 1]);
+    expect(scoreAtTime(points, 24.99, false).points).toEqual([2, 0]);
+    expect(scoreAtTime(points, 14.99, false).points).toEqual([1, 0]);
+    expect(scoreAtTime(points, 0, false).points).toEqual([0, 0]);
+  });
+
+  it("shows the server recorded for the point in play or next", () => {
+    expect(scoreAtTime(points, 12, false).server).toBe(A);
+    expect(scoreAtTime(points, 16, false).server).toBe(B);
+    expect(scoreAtTime(points, 22, false).server).toBe(B);
+  });
+});
@@ -0,0 +1,194 @@
+import type { PlayerSide, Point, PointShotType } from "@shared/schema";
+
+// A point is still "the current one" for this long after its start, so
+// going back from just after a point starts reaches the one before it
+const PREVIOUS_POINT_GRACE_SECONDS = 1;
+// Times within this of a point's start count as at its start
+const EPSILON = 0.05;
+// A set goes to the first to six games by two, or to a tiebreak at 6-6
+const GAMES_PER_SET = 6;
+// A tiebreak goes to the first to seven points by two
+const TIEBREAK_POINTS = 7;
+const GAME_POINT_CALLS = ["0", "15", "30", "40"];
+
+export const SHOT_TYPE_LABELS: Record<PointShotType, string> = {
+  ace: "Ace",
+  "double-fault": "Double fault",
+  winner: "Winner",
+  "forced-error": "Forced error",
+  "unforced-error": "Unforced error",
+};
+
+// The name of a side from the match's players, or a placeholder when the
+// match does not list them
+export function sideName(players: string[], side: PlayerSide): string {
+  return players[side] || `Player ${side === 0 ? "A" : "B"}`;
+}
+
+export interface PointSpan {
+  setNumber: number;
+  gameNumber: number;
+  startTime: number;
+  endTime: number;
+  points: Point[];
+}
+
+// Runs of consecutive points in the same set (or, with byGame, the same
+// game), each spanning its first point's start to its last point's end.
+// points must be in timeline order.
+export function pointSpans(points: Point[], byGame: boolean): PointSpan[] {
+  const spans: PointSpan[] = [];
+  points.forEach((point) => {
+    const span = spans[spans.length - 1];
+    if (
+      span &&
+      span.setNumber === point.setNumber &&
+      (!byGame || span.gameNumber === point.gameNumber)
+    ) {
+      span.endTime = Math.max(span.endTime, point.endTime);
+      span.points.push(point);
+    } else {
+      spans.push({
+        setNumber: point.setNumber,
+        gameNumber: point.gameNumber,
+        startTime: point.startTime,
+        endTime: point.endTime,
+        points: [point],
+      });
+    }
+  });
+  return spans;
+}
+
+// The point to jump to from a time: the next one to start, or going back,
+// the start of the current point unless that was only just passed, in
+// which case the one before it
+export function adjacentPoint(
+  points: Point[],
+  time: number,
+  direction: 1 | -1,
+): Point | undefined {
+  if (direction > 0) {
+    return points.find((point) => point.startTime > time + EPSILON);
+  }
+  return points
+    .filter((point) => point.startTime < time - PREVIOUS_POINT_GRACE_SECONDS)
+    .pop();
+}
+
+export function otherSide(side: PlayerSide): PlayerSide {
+  return side === 0 ? 1 : 0;
+}
+
+// The score of a match after a run of its points
+export interface RunningScore {
+  // Games won by each side in every finished set
+  sets: [number, number][];
+  // Games won by each side in the current set
+  games: [number, number];
+  // Points won by each side in the current game or tiebreak
+  points: [number, number];
+  isTiebreak: boolean;
+  // Where the next point falls, counting from 1
+  setNumber: number;
+  gameNumber: number;
+  // Who serves the next point
+  server: PlayerSide;
+}
+
+// Replays points, in timeline order, through the scoring rules: games to
+// four points by two (or, with noAd, a deciding point at deuce), sets to
+// six games by two with a tiebreak at 6-6. Each game's server is taken
+// from its first recorded point, so a wrong guess is corrected by the
+// data; in a tiebreak the serve changes after the first point and then
+// every two points.
+export function runningScore(points: Point[], noAd: boolean): RunningScore {
+  const score: RunningScore = {
+    sets: [],
+    games: [0, 0],
+    points: [0, 0],
+    isTiebreak: false,
+    setNumber: 1,
+    gameNumber: 1,
+    server: 0,
+  };
+  // Who served the first point of the current game or tiebreak
+  let gameServer: PlayerSide = 0;
+
+  points.forEach((point) => {
+    if (score.points[0] === 0 && score.points[1] === 0) {
+      gameServer = point.server;
+    }
+    const winner = point.winner;
+    const loser = otherSide(winner);
+    score.points[winner]++;
+
+    const won = score.points[winner];
+    const lead = won - score.points[loser];
+    const gameOver = score.isTiebreak
+      ? won >= TIEBREAK_POINTS && lead >= 2
+      : won >= 4 && (lead >= 2 || noAd);
+    if (!gameOver) {
+      score.server = score.isTiebreak
+        ? tiebreakServer(gameServer, score.points[0] + score.points[1])
+        : gameServer;
+      return;
+    }
+
+    score.games[winner]++;
+    score.points = [0, 0];
+    const setOver =
+      score.isTiebreak ||
+      (score.games[winner] >= GAMES_PER_SET &&
+        score.games[winner] - score.games[loser] >= 2);
+    if (setOver) {
+      score.sets.push(score.games);
+      score.games = [0, 0];
+      score.setNumber++;
+      score.gameNumber = 1;
+    } else {
+      score.gameNumber++;
+    }
+    score.isTiebreak =
+      score.games[0] === GAMES_PER_SET && score.games[1] === GAMES_PER_SET;
+    // Serve passes to the other side each game. After a tiebreak, whoever
+    // received its first point serves the next set, which comes to the same.
+    score.server = otherSide(gameServer);
+  });
+
+  return score;
+}
+
+// Who serves a tiebreak point, given how many have been played
+function tiebreakServer(first: PlayerSide, played: number): PlayerSide {
+  return Math.floor((played + 1) / 2) % 2 === 0 ? first : otherSide(first);
+}
+
+// The current game's score as called: 0/15/30/40 with 40-40 at deuce and AD
+// for the side ahead after it, or plain point counts in a tiebreak
+export function gamePointCalls(score: RunningScore): [string, string] {
+  const [a, b] = score.points;
+  if (score.isTiebreak) return [String(a), String(b)];
+  if (a >= 3 && b >= 3) {
+    if (a === b) return ["40", "40"];
+    return a > b ? ["AD", "40"] : ["40", "AD"];
+  }
+  return [GAME_POINT_CALLS[a], GAME_POINT_CALLS[b]];
+}
+
+// The score to show at a time on the timeline. Points count once they are
+// over, so scrubbing back takes them off again. The server is the one
+// recorded for the point in play or the next to start, falling back to
+// the one the rules expect.
+export function scoreAtTime(
+  points: Point[],
+  time: number,
+  noAd: boolean,
+): RunningScore {
+  const score = runningScore(
+    points.filter((point) => point.endTime <= time),
+    noAd,
+  );
+  const upcoming = points.find((point) => point.endTime > time);
+  return upcoming ? { ...score, server: upcoming.server } : score;
+}
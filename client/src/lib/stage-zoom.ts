@@ -0,0 +1,58 @@
+// Digital zoom of the stage. A zoom is a scale and the centre of the
+// visible region, both as fractions of the stage, so it holds across
+// resizes and applies to whichever element is on stage.
+export const MAX_ZOOM = 4;
+
+export interface StageZoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const UNZOOMED: StageZoom = { scale: 1, x: 0.5, y: 0.5 };
+
+// Keeps the scale within 1..MAX_ZOOM and the visible region on the stage
+export function clampZoom({ scale, x, y }: StageZoom): StageZoom {
+  const clamped = Math.min(MAX_ZOOM, Math.max(1, scale));
+  const half = 0.5 / clamped;
+  return {
+    scale: clamped,
+    x: Math.min(1 - half, Math.max(half, x)),
+    y: Math.min(1 - half, Math.max(half, y)),
+  };
+}
+
+// Scales by factor while keeping the point at (px, py) of the stage, in
+// fractions, over the same spot of the picture
+export function zoomAround(
+  zoom: StageZoom,
+  factor: number,
+  px: number,
+  py: number,
+): StageZoom {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, zoom.scale * factor));
+  const pointX = zoom.x - 0.5 / zoom.scale + px / zoom.scale;
+  const pointY = zoom.y - 0.5 / zoom.scale + py / zoom.scale;
+  return {
+    scale,
+    x: pointX - px / scale + 0.5 / scale,
+    y: pointY - py / scale + 0.5 / scale,
+  };
+}
+
+// The visible region as fractions of the stage, for drawing a minimap
+export function visibleRegion(zoom: StageZoom) {
+  const size = 1 / zoom.scale;
+  return {
+    left: zoom.x - size / 2,
+    top: zoom.y - size / 2,
+    size,
+  };
+}
+
+// CSS transform that shows the visible region across the whole stage;
+// needs a transform origin of the top left corner
+export function zoomTransform(zoom: StageZoom): string {
+  const { left, top } = visibleRegion(zoom);
+  return `scale(${zoom.scale}) translate(${-left * 100}%, ${-top * 100}%)`;
+}
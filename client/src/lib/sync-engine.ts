@@ -0,0 +1,374 @@
+import {
+  cameraFps,
+  frameAt,
+  frameCenter,
+  toMasterTime,
+  type CameraTiming,
+} from "@/lib/camera-time";
+
+/* =============================================================================
+ * SYNC ENGINE
+ * =============================================================================
+ * Keeps every angle's <video> element locked to one master clock.
+ *
+ * The clock runs off performance.now() while playing. On every presented
+ * frame (requestVideoFrameCallback, or a requestAnimationFrame poll where
+ * that is unsupported) each video's media time is compared with where the
+ * clock says it should be:
+ *   - drift under DRIFT_TOLERANCE is left alone
+ *   - drift under SEEK_THRESHOLD is absorbed by nudging playbackRate
+ *   - anything larger is corrected with a seek
+ *
+ * When any angle stalls, the clock stops and every angle is paused until
+ * all of them report canplay again, so no angle runs ahead while another
+ * rebuffers.
+ *
+ * While paused, each angle is parked in the middle of the frame of its own
+ * footage at the clock's time (cameras may record at different frame
+ * rates), and stepFrame moves the clock one frame of a chosen angle.
+ * ============================================================================= */
+const SEEK_THRESHOLD = 0.3;
+const DRIFT_TOLERANCE = 0.02;
+const RATE_GAIN = 0.5;
+const MAX_RATE_NUDGE = 0.05;
+const EMIT_INTERVAL_MS = 100;
+
+// Slowest and fastest speeds the clock runs at, from slow motion for
+// technique review to double speed for skimming
+export const MIN_PLAYBACK_RATE = 0.1;
+export const MAX_PLAYBACK_RATE = 2;
+
+const HAS_FRAME_CALLBACK =
+  typeof HTMLVideoElement !== "undefined" &&
+  "requestVideoFrameCallback" in HTMLVideoElement.prototype;
+
+export type SyncEngineState = "paused" | "playing" | "buffering";
+
+interface AttachedVideo {
+  video: HTMLVideoElement;
+  frameHandle: number | null;
+  cleanup: () => void;
+}
+
+export class SyncEngine {
+  private videos = new Map<string, AttachedVideo>();
+  private timings = new Map<string, CameraTiming>();
+  private listeners = new Set<() => void>();
+
+  private state: SyncEngineState = "paused";
+  // While playing, master time = anchorTime + elapsed wall time since
+  // anchorClock. While paused or buffering, anchorTime is the master time.
+  private anchorTime = 0;
+  private anchorClock = 0;
+  private rate = 1;
+
+  private tickHandle: number | null = null;
+  private lastEmit = 0;
+
+  get currentTime(): number {
+    if (this.state !== "playing") return this.anchorTime;
+    return this.masterAt(performance.now());
+  }
+
+  get playbackState(): SyncEngineState {
+    return this.state;
+  }
+
+  // True while the user wants playback, including while rebuffering
+  get isPlaying(): boolean {
+    return this.state !== "paused";
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setTimings(timings: Iterable<[string, CameraTiming]>) {
+    this.timings = new Map(timings);
+    this.videos.forEach((_entry, id) => this.align(id));
+  }
+
+  attach(id: string, video: HTMLVideoElement) {
+    if (this.videos.get(id)?.video === video) return;
+    this.detach(id);
+
+    const onWaiting = () => {
+      if (this.state === "playing") this.waitForAll();
+    };
+    const onMetadata = () => this.align(id);
+    video.addEventListener("waiting", onWaiting);
+    video.addEventListener("loadedmetadata", onMetadata);
+
+    const entry: AttachedVideo = {
+      video,
+      frameHandle: null,
+      cleanup: () => {
+        video.removeEventListener("waiting", onWaiting);
+        video.removeEventListener("loadedmetadata", onMetadata);
+      },
+    };
+    this.videos.set(id, entry);
+    if (HAS_FRAME_CALLBACK) this.watchFrames(id, entry);
+
+    this.align(id);
+    if (this.state !== "paused") this.waitForAll();
+  }
+
+  detach(id: string) {
+    const entry = this.videos.get(id);
+    if (!entry) return;
+    if (entry.frameHandle !== null && HAS_FRAME_CALLBACK) {
+      entry.video.cancelVideoFrameCallback(entry.frameHandle);
+    }
+    entry.cleanup();
+    this.videos.delete(id);
+  }
+
+  play() {
+    if (this.state !== "paused") return;
+    if (this.currentTime >= this.endTime()) this.anchorTime = 0;
+    this.videos.forEach((_entry, id) => this.align(id));
+    this.waitForAll();
+  }
+
+  pause() {
+    if (this.state === "paused") return;
+    this.anchorTime = this.currentTime;
+    this.state = "paused";
+    this.videos.forEach(({ video }) => video.pause());
+    this.stopTicking();
+    this.emit();
+  }
+
+  seek(time: number) {
+    this.anchorTime = Math.max(0, Math.min(time, this.endTime()));
+    this.anchorClock = performance.now();
+    this.videos.forEach((_entry, id) => this.align(id));
+    if (this.state !== "paused") this.waitForAll();
+    this.emit();
+  }
+
+  // Changes the master clock's speed without moving it. Every angle plays
+  // at the same speed, and drift correction keeps working relative to it.
+  setRate(rate: number) {
+    if (!isFinite(rate)) return;
+    rate = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    if (rate === this.rate) return;
+    this.anchorTime = this.currentTime;
+    this.anchorClock = performance.now();
+    this.rate = rate;
+    this.videos.forEach(({ video }) => {
+      video.playbackRate = rate;
+    });
+    this.emit();
+  }
+
+  // Pauses and moves the clock one frame of the given angle's footage
+  // forward or back, so that angle shows its next or previous frame
+  stepFrame(id: string, direction: 1 | -1) {
+    this.pause();
+    const timing = this.timings.get(id);
+    if (!timing) return;
+    const fps = cameraFps(timing);
+    const frame = frameAt(fps, this.expectedMediaTime(id, this.anchorTime));
+    this.seek(toMasterTime(timing, frameCenter(fps, frame + direction)));
+  }
+
+  destroy() {
+    Array.from(this.videos.keys()).forEach((id) => this.detach(id));
+    this.stopTicking();
+    this.listeners.clear();
+  }
+
+  private masterAt(clock: number): number {
+    return this.anchorTime + ((clock - this.anchorClock) / 1000) * this.rate;
+  }
+
+  // Where the angle's file should be at the given master time. May fall
+  // outside the file when the camera started late or stopped early.
+  private expectedMediaTime(id: string, masterTime: number): number {
+    const timing = this.timings.get(id) ?? { offset: 0, driftRate: 0 };
+    return timing.offset + masterTime * (1 + timing.driftRate);
+  }
+
+  // The master time at which the last angle runs out of footage
+  private endTime(): number {
+    let end = 0;
+    this.videos.forEach(({ video }, id) => {
+      const timing = this.timings.get(id);
+      if (timing && isFinite(video.duration) && video.duration > 0) {
+        end = Math.max(end, toMasterTime(timing, video.duration));
+      }
+    });
+    return end > 0 ? end : Infinity;
+  }
+
+  private isInRange(video: HTMLVideoElement, mediaTime: number): boolean {
+    return (
+      mediaTime >= 0 && (!isFinite(video.duration) || mediaTime < video.duration)
+    );
+  }
+
+  // Hard-seeks one angle to the master clock
+  private align(id: string) {
+    const entry = this.videos.get(id);
+    if (!entry || entry.video.readyState < HTMLMediaElement.HAVE_METADATA) {
+      return;
+    }
+    const { video } = entry;
+    const mediaTime = this.expectedMediaTime(id, this.currentTime);
+    const duration = isFinite(video.duration) ? video.duration : mediaTime;
+    let target = Math.max(0, Math.min(mediaTime, duration));
+    if (this.state === "paused") {
+      const fps = cameraFps(this.timings.get(id) ?? {});
+      target = Math.min(frameCenter(fps, frameAt(fps, target)), duration);
+    }
+    if (Math.abs(video.currentTime - target) > 0.001) {
+      video.currentTime = target;
+    }
+    video.playbackRate = this.rate;
+  }
+
+  // Stops the clock and holds every angle until all of them can play, then
+  // resumes together
+  private waitForAll() {
+    this.anchorTime = this.currentTime;
+    this.state = "buffering";
+    this.videos.forEach(({ video }) => video.pause());
+    this.emit();
+
+    const check = () => {
+      if (this.state !== "buffering") return cleanup();
+      const ready = Array.from(this.videos.entries()).every(
+        ([id, { video }]) =>
+          (video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA &&
+            !video.seeking) ||
+          video.error !== null ||
+          !this.isInRange(video, this.expectedMediaTime(id, this.anchorTime)),
+      );
+      if (!ready) return;
+      cleanup();
+      this.resume();
+    };
+
+    const videos = Array.from(this.videos.values()).map(({ video }) => video);
+    const cleanup = () => {
+      videos.forEach((video) => {
+        video.removeEventListener("canplay", check);
+        video.removeEventListener("seeked", check);
+        video.removeEventListener("error", check);
+      });
+    };
+    videos.forEach((video) => {
+      video.addEventListener("canplay", check);
+      video.addEventListener("seeked", check);
+      video.addEventListener("error", check);
+    });
+    check();
+  }
+
+  private resume() {
+    this.anchorClock = performance.now();
+    this.state = "playing";
+    this.videos.forEach(({ video }, id) => {
+      if (this.isInRange(video, this.expectedMediaTime(id, this.anchorTime))) {
+        video.playbackRate = this.rate;
+        video.play().catch(() => {});
+      }
+    });
+    this.startTicking();
+    this.emit();
+  }
+
+  private watchFrames(id: string, entry: AttachedVideo) {
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      if (this.videos.get(id) !== entry) return;
+      if (this.state === "playing" && !entry.video.seeking) {
+        const expected = this.expectedMediaTime(
+          id,
+          this.masterAt(metadata.expectedDisplayTime),
+        );
+        this.correct(entry.video, metadata.mediaTime - expected, expected);
+      }
+      entry.frameHandle = entry.video.requestVideoFrameCallback(onFrame);
+    };
+    entry.frameHandle = entry.video.requestVideoFrameCallback(onFrame);
+  }
+
+  private correct(video: HTMLVideoElement, drift: number, expected: number) {
+    if (Math.abs(drift) > SEEK_THRESHOLD) {
+      video.currentTime = expected;
+      video.playbackRate = this.rate;
+    } else if (Math.abs(drift) > DRIFT_TOLERANCE) {
+      const nudge = Math.max(
+        -MAX_RATE_NUDGE,
+        Math.min(MAX_RATE_NUDGE, drift * RATE_GAIN),
+      );
+      video.playbackRate = this.rate * (1 - nudge);
+    } else if (video.playbackRate !== this.rate) {
+      video.playbackRate = this.rate;
+    }
+  }
+
+  private startTicking() {
+    if (this.tickHandle !== null) return;
+    const tick = () => {
+      this.tickHandle = requestAnimationFrame(tick);
+      this.onTick();
+    };
+    this.tickHandle = requestAnimationFrame(tick);
+  }
+
+  private stopTicking() {
+    if (this.tickHandle !== null) cancelAnimationFrame(this.tickHandle);
+    this.tickHandle = null;
+  }
+
+  private onTick() {
+    if (this.state !== "playing") return;
+
+    const masterTime = this.currentTime;
+    const end = this.endTime();
+    if (masterTime >= end) {
+      this.pause();
+      this.anchorTime = end;
+      this.emit();
+      return;
+    }
+
+    this.videos.forEach(({ video }, id) => {
+      const expected = this.expectedMediaTime(id, masterTime);
+
+      // Angles without footage at this point hold still; angles coming
+      // into range start playing
+      if (!this.isInRange(video, expected)) {
+        if (!video.paused) video.pause();
+        return;
+      }
+      if (video.paused) {
+        video.currentTime = expected;
+        video.play().catch(() => {});
+        return;
+      }
+
+      if (!HAS_FRAME_CALLBACK && !video.seeking) {
+        this.correct(video, video.currentTime - expected, expected);
+      }
+    });
+
+    const now = performance.now();
+    if (now - this.lastEmit >= EMIT_INTERVAL_MS) this.emit();
+  }
+
+  private emit() {
+    this.lastEmit = performance.now();
+    this.listeners.forEach((listener) => listener());
+  }
+}
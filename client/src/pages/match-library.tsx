@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { AccountMenu } from "@/components/account-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { Camera, Search } from "lucide-react";
+import {
+  matchSurfaces,
+  type MatchPage,
+  type MatchSummary,
+} from "@shared/schema";
+
+const PAGE_SIZE = 12;
+// Typing in the search boxes only queries the server once it pauses
+const SEARCH_DELAY_MS = 300;
+const ANY_SURFACE = "any";
+// Query string keys the library's search, filters and page live under
+const FILTER_KEYS = ["q", "player", "surface", "from", "to"] as const;
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${mins.toString().padStart(hours > 0 ? 2 : 1, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+// Page numbers to offer: the first, the last and the current one with its
+// neighbours, with gaps in between
+function pageNumbers(page: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+function MatchCard({ match }: { match: MatchSummary }) {
+  const date = new Date(match.playedAt ?? match.createdAt);
+  const details = [match.venue, match.tournament].filter(Boolean).join(" · ");
+
+  return (
+    <Link
+      href={`/matches/${match.id}`}
+      className="group flex flex-col bg-card rounded-lg border border-card-border overflow-hidden hover-elevate"
+      data-testid={`card-match-${match.id}`}
+    >
+      <div className="relative aspect-video bg-black">
+        {match.posterSrc ? (
+          <img
+            src={match.posterSrc}
+            alt=""
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Camera className="w-8 h-8 text-muted-foreground" />
+          </div>
+        )}
+        {match.duration !== null && (
+          <span
+            className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/70 text-xs font-mono text-white"
+            data-testid={`text-match-duration-${match.id}`}
+          >
+            {formatDuration(match.duration)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1 p-3">
+        <div className="flex items-center gap-2">
+          <h3
+            className="flex-1 min-w-0 truncate text-sm font-medium"
+            data-testid={`text-match-title-${match.id}`}
+          >
+            {match.title}
+          </h3>
+          {match.surface && (
+            <Badge variant="secondary" className="capitalize">
+              {match.surface}
+            </Badge>
+          )}
+        </div>
+        {match.players.length > 0 && (
+          <p className="truncate text-sm">{match.players.join(" vs ")}</p>
+        )}
+        <p className="truncate text-xs text-muted-foreground">
+          {date.toLocaleDateString()}
+          {details && ` · ${details}`}
+          {` · ${match.cameraCount} angle${match.cameraCount === 1 ? "" : "s"}`}
+        </p>
+      </div>
+    </Link>
+  );
+}
+
+/* =============================================================================
+ * MATCH LIBRARY
+ * =============================================================================
+ * Browses the matches the user can view. Search, filters and page live in
+ * the query string, so going back from the viewer returns to the same
+ * results; the search boxes write to it once typing pauses.
+ * ============================================================================= */
+export default function MatchLibrary() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const filter = (key: FilterKey) => params.get(key) ?? "";
+
+  const [query, setQuery] = useState(filter("q"));
+  const [player, setPlayer] = useState(filter("player"));
+
+  const hrefWith = (changes: Partial<Record<FilterKey | "page", string>>) => {
+    const next = new URLSearchParams(search);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    });
+    // Any change to what is searched starts again from the first page
+    if (!("page" in changes)) next.delete("page");
+    const qs = next.toString();
+    return qs ? `/?${qs}` : "/";
+  };
+  const update = (changes: Partial<Record<FilterKey | "page", string>>) =>
+    navigate(hrefWith(changes), { replace: !("page" in changes) });
+
+  useEffect(() => {
+    if (query.trim() === filter("q") && player.trim() === filter("player")) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => update({ q: query.trim(), player: player.trim() }),
+      SEARCH_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+    // Only typing should schedule a search
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, player]);
+
+  const apiParams = new URLSearchParams({
+    page: String(page),
+    pageSize: String(PAGE_SIZE),
+  });
+  FILTER_KEYS.forEach((key) => {
+    if (filter(key)) apiParams.set(key, filter(key));
+  });
+  const apiQuery = apiParams.toString();
+
+  const { data, isError, isFetching } = useQuery<MatchPage>({
+    queryKey: ["/api/matches", apiQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/matches?${apiQuery}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const hasFilters = FILTER_KEYS.some((key) => filter(key));
+
+  const pageLink = (target: number) => ({
+    href: hrefWith({ page: target > 1 ? String(target) : "" }),
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      update({ page: target > 1 ? String(target) : "" });
+      window.scrollTo({ top: 0 });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto p-4 lg:p-6 flex flex-col gap-6">
+        <div className="flex items-center gap-2">
+          <Camera className="w-5 h-5 text-muted-foreground" />
+          <h1 className="flex-1 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+            Match library
+          </h1>
+          <AccountMenu />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search title, venue, tournament, players"
+              className="pl-9"
+              data-testid="input-library-search"
+            />
+          </div>
+          <Input
+            value={player}
+            onChange={(e) => setPlayer(e.target.value)}
+            placeholder="Player"
+            className="w-40"
+            data-testid="input-library-player"
+          />
+          <Select
+            value={filter("surface") || ANY_SURFACE}
+            onValueChange={(value) =>
+              update({ surface: value === ANY_SURFACE ? "" : value })
+            }
+          >
+            <SelectTrigger
+              className="w-32"
+              data-testid="select-library-surface"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_SURFACE}>Any surface</SelectItem>
+              {matchSurfaces.map((surface) => (
+                <SelectItem
+                  key={surface}
+                  value={surface}
+                  className="capitalize"
+                >
+                  {surface}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={filter("from")}
+            onChange={(e) => update({ from: e.target.value })}
+            className="w-40"
+            aria-label="Played from"
+            data-testid="input-library-from"
+          />
+          <Input
+            type="date"
+            value={filter("to")}
+            onChange={(e) => update({ to: e.target.value })}
+            className="w-40"
+            aria-label="Played until"
+            data-testid="input-library-to"
+          />
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setQuery("");
+                setPlayer("");
+                navigate("/", { replace: true });
+              }}
+              data-testid="button-library-clear"
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isError && (
+          <p
+            className="text-sm text-muted-foreground"
+            data-testid="text-library-error"
+          >
+            Could not load matches
+          </p>
+        )}
+
+        {data && data.matches.length === 0 && (
+          <p
+            className="text-sm text-muted-foreground"
+            data-testid="text-library-empty"
+          >
+            {hasFilters ? "No matches found" : "No matches available"}
+          </p>
+        )}
+
+        {data && data.matches.length > 0 && (
+          <div
+            className={`grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 transition-opacity ${
+              isFetching ? "opacity-60" : "opacity-100"
+            }`}
+            data-testid="grid-library"
+          >
+            {data.matches.map((match) => (
+              <MatchCard key={match.id} match={match} />
+            ))}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              {page > 1 && (
+                <PaginationItem>
+                  <PaginationPrevious {...pageLink(page - 1)} />
+                </PaginationItem>
+              )}
+              {pageNumbers(page, pageCount).map((n, i) => (
+                <PaginationItem key={n ?? `gap-${i}`}>
+                  {n === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink isActive={n === page} {...pageLink(n)}>
+                      {n}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              {page < pageCount && (
+                <PaginationItem>
+                  <PaginationNext {...pageLink(page + 1)} />
+                </PaginationItem>
+              )}
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
-import { useRef, useState, useEffect, useCallback } from "react";
+import { useRef, useState, useEffect, useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Tooltip,
   TooltipContent,
@@ -15,49 +25,96 @@ import {
   SkipBack,
   SkipForward,
   Camera,
+  Crosshair,
+  Blend,
+  Scissors,
+  Upload,
+  Users,
+  Share2,
+  LayoutGrid,
+  Repeat,
+  Square,
+  Grid2x2,
+  LayoutPanelTop,
+  Columns2,
+  ScanEye,
+  ChevronsLeft,
+  ChevronsRight,
+  ClipboardPen,
+  Trophy,
+  type LucideIcon,
 } from "lucide-react";
+import { AccountMenu } from "@/components/account-menu";
+import { CalibrationPanel } from "@/components/calibration-panel";
+import { CameraUploadPanel } from "@/components/camera-upload-panel";
+import { LoopPanel } from "@/components/loop-panel";
+import { PointTimeline } from "@/components/point-timeline";
+import { ScoreBug } from "@/components/score-bug";
+import { MembersPanel } from "@/components/members-panel";
+import { SharePanel } from "@/components/share-panel";
+import { TaggingPanel } from "@/components/tagging-panel";
+import { VideoSlot } from "@/components/video-slot";
+import { ZoomMinimap } from "@/components/zoom-minimap";
+import { useAuth } from "@/hooks/use-auth";
+import { useFollowCamera } from "@/hooks/use-follow-camera";
+import { useStageZoom } from "@/hooks/use-stage-zoom";
+import { useSyncEngine } from "@/hooks/use-sync-engine";
+import { useVideoPool } from "@/hooks/use-video-pool";
+import {
+  parseViewerUrl,
+  resolveUrlAngle,
+  useViewerUrl,
+} from "@/hooks/use-viewer-url";
+import { cameraFps, frameAt, toMasterTime } from "@/lib/camera-time";
+import { adjacentPoint } from "@/lib/scoring";
+import { isEditableTarget } from "@/lib/keyboard";
+import { zoomTransform } from "@/lib/stage-zoom";
+import { canPerform } from "@shared/permissions";
+import type {
+  MatchCamera,
+  MatchWithCameras,
+  Point,
+  Region,
+  Track,
+  TrackSummary,
+  ViewerLayout,
+} from "@shared/schema";
 
-/* =============================================================================
- * VIDEO CONFIGURATION
- * =============================================================================
- * Edit these paths and labels to change the video sources.
- *
- * Each video should be a 1920x1080 MP4 file.
- *
- * For Cloudflare R2 integration (future):
- * Replace the 'src' values with your R2 bucket URLs, e.g.:
- * src: 'https://your-bucket.r2.cloudflarestorage.com/videos/court-view.mp4'
- *
- * Current placeholder videos are served from the local /videos directory.
- * ============================================================================= */
-const VIDEO_CONFIG = {
-  angle1: {
-    id: "angle1",
-    src: "/videos/angle1.mp4",
-    label: "Court View",
-    description: "Wide angle overhead view of the entire court",
-  },
-  angle2: {
-    id: "angle2",
-    src: "/videos/angle2.mp4",
-    label: "Player 1",
-    description: "Close-up camera following Player 1",
-  },
-  angle3: {
-    id: "angle3",
-    src: "/videos/angle3.mp4",
-    label: "Player 2",
-    description: "Close-up camera following Player 2",
-  },
-  angle4: {
-    id: "angle4",
-    src: "/videos/angle4.mp4",
-    label: "Net Cam",
-    description: "Camera positioned at the net level",
+type VideoAngle = MatchCamera["id"];
+
+type AngleTransition = "cut" | "dissolve";
+const TRANSITION_STORAGE_KEY = "multicam.transition";
+const SCORE_BUG_STORAGE_KEY = "multicam.scoreBug";
+const DISSOLVE_MS = 400;
+// Speeds offered in the speed menu and stepped through with < and >
+const PLAYBACK_RATES = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+// Value of the follow menu's "No follow" item
+const NOT_FOLLOWING = "off";
+
+// Angles each layout puts on stage, the main angle first
+const LAYOUTS: {
+  layout: ViewerLayout;
+  label: string;
+  icon: LucideIcon;
+  tiles: number;
+}[] = [
+  { layout: "single", label: "Single angle", icon: Square, tiles: 1 },
+  { layout: "grid", label: "2x2 grid", icon: Grid2x2, tiles: 4 },
+  {
+    layout: "one-plus-three",
+    label: "One large, three small",
+    icon: LayoutPanelTop,
+    tiles: 4,
   },
-};
+  { layout: "side-by-side", label: "Side by side", icon: Columns2, tiles: 2 },
+];
 
-type VideoAngle = keyof typeof VIDEO_CONFIG;
+const LAYOUT_GRID_CLASSES: Record<ViewerLayout, string> = {
+  single: "",
+  grid: "grid-cols-2 grid-rows-2",
+  "one-plus-three": "grid-cols-3 grid-rows-[2fr_1fr]",
+  "side-by-side": "grid-cols-2",
+};
 
 function formatTime(seconds: number): string {
   if (!isFinite(seconds) || isNaN(seconds)) return "0:00";
@@ -66,49 +123,299 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
-const allAngles: VideoAngle[] = ["angle1", "angle2", "angle3", "angle4"];
+// mm:ss:ff, with ff the frame within the second at the given frame rate
+function formatTimecode(seconds: number, fps: number): string {
+  if (!isFinite(seconds) || isNaN(seconds)) return "0:00:00";
+  const frame = frameAt(fps, seconds % 1) % Math.ceil(fps);
+  return `${formatTime(seconds)}:${frame.toString().padStart(2, "0")}`;
+}
+
+function formatRate(rate: number): string {
+  return `${rate}x`;
+}
+
+// The next listed speed above (or below) the current one, which may be an
+// unlisted speed from a deep link
+function stepRate(rate: number, direction: 1 | -1): number {
+  const next =
+    direction > 0
+      ? PLAYBACK_RATES.find((r) => r > rate)
+      : PLAYBACK_RATES.filter((r) => r < rate).pop();
+  return next ?? rate;
+}
 
+/* =============================================================================
+ * VIDEO CONFIGURATION
+ * =============================================================================
+ * Camera sources are served by the match catalog API. Each camera record
+ * carries the src, label and description of one angle; create or edit
+ * matches through /api/matches instead of rebuilding the client.
+ *
+ * A camera's src may be a 1920x1080 MP4 file or an HLS (.m3u8) / DASH (.mpd)
+ * manifest; manifests let thumbnail angles stream a low rendition.
+ * ============================================================================= */
 export default function MultiCamViewer() {
-  const [mainAngle, setMainAngle] = useState<VideoAngle>("angle1");
-  const [isPlaying, setIsPlaying] = useState(false);
+  const { id } = useParams<{ id: string }>();
+  const { data: match, error } = useQuery<MatchWithCameras>({
+    queryKey: ["/api/matches", id],
+  });
+
+  if (error) {
+    let message = "Could not load match";
+    if (error.message.startsWith("401")) {
+      message = "Sign in to view this match";
+    } else if (error.message.startsWith("404")) {
+      message = "Match not found";
+    }
+
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Camera className="w-8 h-8 text-muted-foreground" />
+          <p
+            className="text-sm text-muted-foreground font-medium"
+            data-testid="text-match-unavailable"
+          >
+            {message}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/" data-testid="link-library">
+                Match library
+              </Link>
+            </Button>
+            <AccountMenu />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!match) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-muted-foreground font-medium">
+            Loading match...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <MatchViewer
+      key={match.id}
+      match={match}
+      urlPath={`/matches/${match.id}`}
+      showLibraryLink
+    />
+  );
+}
+
+// Master-clock range playback is held to, e.g. for a share link. A null
+// end runs to the end of the match.
+export interface PlaybackWindow {
+  start: number;
+  end: number | null;
+}
+
+interface MatchViewerProps {
+  match: MatchWithCameras;
+  playbackWindow?: PlaybackWindow;
+  // Page path the viewer's angle, time and speed are mirrored onto as
+  // ?angle=&t=&rate=, and read back from on load
+  urlPath?: string;
+  // Offer a way back to the match library, for viewers opened from it
+  showLibraryLink?: boolean;
+}
+
+export function MatchViewer({
+  match,
+  playbackWindow,
+  urlPath,
+  showLibraryLink = false,
+}: MatchViewerProps) {
+  const [initialView] = useState(() =>
+    urlPath ? parseViewerUrl(window.location.search) : null,
+  );
+
+  // Unsaved offsets from the calibration panel override the stored ones
+  const [draftOffsets, setDraftOffsets] = useState<
+    Record<MatchCamera["id"], number>
+  >({});
+  const cameras = useMemo(
+    () =>
+      match.cameras.map((camera) =>
+        camera.id in draftOffsets
+          ? { ...camera, offset: draftOffsets[camera.id] }
+          : camera,
+      ),
+    [match.cameras, draftOffsets],
+  );
+
+  const allAngles = useMemo<VideoAngle[]>(
+    () => cameras.map((camera) => camera.id),
+    [cameras],
+  );
+  const cameraById = useMemo(
+    () => new Map(cameras.map((camera) => [camera.id, camera])),
+    [cameras],
+  );
+
+  const [mainAngle, setMainAngle] = useState<VideoAngle>(
+    () =>
+      resolveUrlAngle(initialView?.angle ?? null, allAngles) ?? allAngles[0],
+  );
   const [isMuted, setIsMuted] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [controlsVisible, setControlsVisible] = useState(true);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isManagingFiles, setIsManagingFiles] = useState(false);
+  const [isManagingMembers, setIsManagingMembers] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isLoopPanelOpen, setIsLoopPanelOpen] = useState(false);
+  const [isTagging, setIsTagging] = useState(false);
+  // In and out points of the A–B loop on the master clock. Once both are
+  // set, playback wraps from the out point back to the in point, optionally
+  // moving the next angle on stage each time round.
+  const [loopIn, setLoopIn] = useState<number | null>(null);
+  const [loopOut, setLoopOut] = useState<number | null>(null);
+  const [isCyclingAngles, setIsCyclingAngles] = useState(false);
+  // The layout picked on this page, else the one in the URL, else the
+  // user's saved one
+  const { user, preferencesMutation } = useAuth();
+  const [layoutChoice, setLayoutChoice] = useState<ViewerLayout | null>(
+    initialView?.layout ?? null,
+  );
+  const layout = layoutChoice ?? user?.preferences.viewerLayout ?? "single";
+  // Angles on stage beside the main one, in tile order. Angles that no
+  // longer exist or are now main are skipped, and empty tiles are filled
+  // with the remaining angles in match order.
+  const [companionAngles, setCompanionAngles] = useState<VideoAngle[]>([]);
+  // Tracking data the single-angle stage is following, if any. Following
+  // stops when the user zooms or pans themselves.
+  const [followTrackId, setFollowTrackId] = useState<Track["id"] | null>(null);
+  const canEdit = canPerform(match.role, "edit");
+  const canManage = canPerform(match.role, "manage");
+  const [transition, setTransition] = useState<AngleTransition>(() =>
+    localStorage.getItem(TRANSITION_STORAGE_KEY) === "dissolve"
+      ? "dissolve"
+      : "cut",
+  );
+  const [isScoreBugShown, setIsScoreBugShown] = useState(
+    () => localStorage.getItem(SCORE_BUG_STORAGE_KEY) !== "hidden",
+  );
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const mainVideoRef = useRef<HTMLVideoElement | null>(null);
-  const thumbnailRefs = useRef<Map<VideoAngle, HTMLVideoElement>>(new Map());
+  const { engine, currentTime, playbackState, rate } = useSyncEngine();
+  const isPlaying = playbackState !== "paused";
+  const isBuffering = playbackState === "buffering";
+  // The time reads as a frame timecode from the first frame step until
+  // playback resumes or the timeline is moved another way
+  const [isFrameStepping, setIsFrameStepping] = useState(false);
 
-  const thumbnailAngles = allAngles.filter((angle) => angle !== mainAngle);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const zoomLayerRef = useRef<HTMLDivElement | null>(null);
+  const fadeCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  const getAllVideos = useCallback(() => {
-    const videos: HTMLVideoElement[] = [];
-    if (mainVideoRef.current) videos.push(mainVideoRef.current);
-    thumbnailRefs.current.forEach((v) => videos.push(v));
-    return videos;
-  }, []);
+  const mainCamera = cameraById.get(mainAngle);
+  const tileCount = LAYOUTS.find((option) => option.layout === layout)!.tiles;
+  const stageAngles = useMemo(() => {
+    const others = allAngles.filter((angle) => angle !== mainAngle);
+    const companions = companionAngles.filter((angle) =>
+      others.includes(angle),
+    );
+    others.forEach((angle) => {
+      if (!companions.includes(angle)) companions.push(angle);
+    });
+    return [mainAngle, ...companions].slice(0, tileCount);
+  }, [allAngles, mainAngle, companionAngles, tileCount]);
+  const thumbnailAngles = allAngles.filter(
+    (angle) => !stageAngles.includes(angle),
+  );
 
-  const syncAllVideos = useCallback(
-    (targetTime: number) => {
-      getAllVideos().forEach((video) => {
-        if (Math.abs(video.currentTime - targetTime) > 0.1) {
-          video.currentTime = targetTime;
-        }
-      });
-    },
-    [getAllVideos],
+  // The timeline runs on the master clock, so the main file's length is
+  // mapped through its camera's offset
+  const duration = mainCamera
+    ? Math.max(0, toMasterTime(mainCamera, mediaDuration))
+    : mediaDuration;
+
+  const windowStart = playbackWindow?.start ?? 0;
+  const windowEnd = playbackWindow?.end ?? null;
+  const timelineEnd = windowEnd ?? duration;
+  const hasLoop = loopIn !== null && loopOut !== null && loopOut > loopIn;
+
+  // Where a master time falls along the timeline, in percent
+  const timelinePercent = (time: number) =>
+    timelineEnd > windowStart
+      ? ((time - windowStart) / (timelineEnd - windowStart)) * 100
+      : 0;
+
+  // Only the first nine angles get a number-key shortcut
+  const shortcutFor = (angle: VideoAngle) => {
+    const index = allAngles.indexOf(angle);
+    return index >= 0 && index < 9 ? index + 1 : undefined;
+  };
+
+  // Offset changes (calibration nudges, saved or auto-synced offsets)
+  // re-align every angle straight away
+  useEffect(() => {
+    engine.setTimings(cameras.map((camera) => [camera.id, camera]));
+  }, [engine, cameras]);
+
+  const videos = useVideoPool(engine, cameras, stageAngles);
+  const mainVideo = videos.get(mainAngle);
+
+  // Share links only reach the match's cameras, not its API
+  const { data: points = [] } = useQuery<Point[]>({
+    queryKey: ["/api/matches", match.id, "points"],
+    enabled: !playbackWindow,
+  });
+  const { data: tracks } = useQuery<TrackSummary[]>({
+    queryKey: ["/api/matches", match.id, "tracks"],
+    enabled: !playbackWindow,
+  });
+  // Tracks are of one camera's footage, so only those of the main angle
+  // can be followed
+  const followableTracks =
+    tracks?.filter((track) => track.cameraId === mainAngle) ?? [];
+  const followedTrack =
+    layout === "single"
+      ? followableTracks.find((track) => track.id === followTrackId)
+      : undefined;
+  const { data: followedSamples } = useQuery<Track>({
+    queryKey: ["/api/matches", match.id, "tracks", followedTrack?.id],
+    enabled: !!followedTrack,
+  });
+
+  const stopFollowing = useCallback(() => setFollowTrackId(null), []);
+  const { zoom, setZoom } = useStageZoom(
+    stageRef,
+    mainAngle,
+    layout === "single",
+    stopFollowing,
+  );
+  useFollowCamera(
+    engine,
+    stageRef,
+    zoomLayerRef,
+    mainCamera,
+    mainVideo,
+    followedTrack && followedSamples,
+    zoom,
+    setZoom,
   );
 
   useEffect(() => {
-    const mainVideo = mainVideoRef.current;
     if (!mainVideo) return;
 
     const handleLoadedMetadata = () => {
       const dur = mainVideo.duration;
       if (dur && isFinite(dur) && dur > 0) {
-        setDuration(dur);
+        setMediaDuration(dur);
         setIsLoading(false);
       }
     };
@@ -116,7 +423,7 @@ export default function MultiCamViewer() {
     const handleCanPlay = () => {
       const dur = mainVideo.duration;
       if (dur && isFinite(dur) && dur > 0) {
-        setDuration(dur);
+        setMediaDuration(dur);
       }
       setIsLoading(false);
     };
@@ -130,7 +437,10 @@ export default function MultiCamViewer() {
     mainVideo.addEventListener("canplay", handleCanPlay);
     mainVideo.addEventListener("error", handleError);
 
-    mainVideo.load();
+    // Pooled elements are usually buffered already when promoted
+    if (mainVideo.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleLoadedMetadata();
+    }
 
     const timeout = setTimeout(() => {
       setIsLoading(false);
@@ -142,102 +452,291 @@ export default function MultiCamViewer() {
       mainVideo.removeEventListener("error", handleError);
       clearTimeout(timeout);
     };
-  }, [mainAngle]);
-
-  const handleTimeUpdate = useCallback(() => {
-    const mainVideo = mainVideoRef.current;
-    if (mainVideo) {
-      setCurrentTime(mainVideo.currentTime);
-      thumbnailRefs.current.forEach((video) => {
-        if (Math.abs(video.currentTime - mainVideo.currentTime) > 0.5) {
-          video.currentTime = mainVideo.currentTime;
-        }
-      });
+  }, [mainVideo, mainAngle]);
+
+  // A deep link opens on the time and speed it names
+  useEffect(() => {
+    if (initialView?.time != null) engine.seek(initialView.time);
+    if (initialView?.rate != null) engine.setRate(initialView.rate);
+  }, [engine, initialView]);
+
+  useViewerUrl(urlPath, {
+    angle: mainAngle,
+    time: currentTime,
+    rate,
+    layout,
+  });
+
+  // Playback stops at the window's end, and anything landing before its
+  // start (the initial load, replaying from the end of the footage) is
+  // moved up to it
+  useEffect(() => {
+    const time = engine.currentTime;
+    if (time < windowStart) {
+      engine.seek(windowStart);
+    } else if (windowEnd !== null && time > windowEnd) {
+      engine.pause();
+      engine.seek(windowEnd);
     }
-  }, []);
+  }, [engine, currentTime, windowStart, windowEnd]);
 
   const handlePlayPause = useCallback(() => {
-    const allVideos = getAllVideos();
     if (isPlaying) {
-      allVideos.forEach((v) => v.pause());
-      setIsPlaying(false);
+      engine.pause();
     } else {
-      const playPromises = allVideos.map((v) => v.play().catch(() => {}));
-      Promise.all(playPromises).then(() => setIsPlaying(true));
+      if (windowEnd !== null && engine.currentTime >= windowEnd) {
+        engine.seek(windowStart);
+      }
+      engine.play();
     }
-  }, [isPlaying, getAllVideos]);
+  }, [isPlaying, engine, windowStart, windowEnd]);
+
+  useEffect(() => {
+    if (isPlaying) setIsFrameStepping(false);
+  }, [isPlaying]);
 
   const handleSeek = useCallback(
     (value: number[]) => {
-      const newTime = value[0];
-      setCurrentTime(newTime);
-      syncAllVideos(newTime);
+      setIsFrameStepping(false);
+      engine.seek(value[0]);
     },
-    [syncAllVideos],
+    [engine],
   );
 
   const handleSkip = useCallback(
     (seconds: number) => {
-      const newTime = Math.max(0, Math.min(duration, currentTime + seconds));
-      setCurrentTime(newTime);
-      syncAllVideos(newTime);
+      setIsFrameStepping(false);
+      engine.seek(
+        Math.max(
+          windowStart,
+          Math.min(timelineEnd, engine.currentTime + seconds),
+        ),
+      );
+    },
+    [timelineEnd, windowStart, engine],
+  );
+
+  // Jumps every angle to the start of the next or previous rally
+  const handlePointStep = useCallback(
+    (direction: 1 | -1) => {
+      const point = adjacentPoint(points, engine.currentTime, direction);
+      if (!point) return;
+      setIsFrameStepping(false);
+      engine.seek(point.startTime);
     },
-    [currentTime, duration, syncAllVideos],
+    [points, engine],
+  );
+
+  // Overlaid on the main angle, wherever its label is, once the match has
+  // been scored
+  const scoreBug = isScoreBugShown && points.length > 0 && (
+    <ScoreBug
+      points={points}
+      players={match.players}
+      noAd={match.noAdScoring}
+      currentTime={currentTime}
+    />
+  );
+
+  // Steps one frame of the angle on stage; the other angles follow on the
+  // nearest frame of their own footage
+  const handleFrameStep = useCallback(
+    (direction: 1 | -1) => {
+      setIsFrameStepping(true);
+      engine.stepFrame(mainAngle, direction);
+    },
+    [engine, mainAngle],
+  );
+
+  const handleRateStep = useCallback(
+    (direction: 1 | -1) => {
+      engine.setRate(stepRate(engine.playbackRate, direction));
+    },
+    [engine],
+  );
+
+  // A new in point after the out point (or out before in) drops the other
+  // point rather than leaving an empty loop
+  const handleLoopIn = useCallback(() => {
+    const time = engine.currentTime;
+    setLoopIn(time);
+    setLoopOut((out) => (out !== null && out <= time ? null : out));
+    setIsLoopPanelOpen(true);
+  }, [engine]);
+
+  const handleLoopOut = useCallback(() => {
+    const time = engine.currentTime;
+    setLoopOut(time);
+    setLoopIn((start) => (start !== null && start >= time ? null : start));
+    setIsLoopPanelOpen(true);
+  }, [engine]);
+
+  const handleLoopClear = useCallback(() => {
+    setLoopIn(null);
+    setLoopOut(null);
+  }, []);
+
+  const handleRegionSelect = useCallback(
+    (region: Region) => {
+      setLoopIn(region.startTime);
+      setLoopOut(region.endTime);
+      setIsFrameStepping(false);
+      engine.seek(region.startTime);
+      engine.play();
+    },
+    [engine],
   );
 
   const handleMuteToggle = useCallback(() => {
     setIsMuted((prev) => !prev);
   }, []);
 
+  // Every angle is already playing in sync, so switching only promotes a
+  // different pooled element to the stage. A dissolve fades a still of the
+  // outgoing frame over the incoming angle.
   const handleAngleSwitch = useCallback(
     (newAngle: VideoAngle) => {
       if (newAngle === mainAngle) return;
 
-      const wasPlaying = isPlaying;
-      const currentTimeSnapshot = currentTime;
-
-      getAllVideos().forEach((v) => v.pause());
+      const canvas = fadeCanvasRef.current;
+      const outgoing = videos.get(mainAngle);
+      if (
+        transition === "dissolve" &&
+        layout === "single" &&
+        canvas &&
+        outgoing &&
+        outgoing.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA
+      ) {
+        canvas.width = outgoing.videoWidth;
+        canvas.height = outgoing.videoHeight;
+        canvas.getContext("2d")?.drawImage(outgoing, 0, 0);
+        canvas.style.transition = "none";
+        canvas.style.opacity = "1";
+        void canvas.offsetWidth;
+        canvas.style.transition = `opacity ${DISSOLVE_MS}ms ease-out`;
+        canvas.style.opacity = "0";
+      }
 
       setMainAngle(newAngle);
+    },
+    [mainAngle, videos, transition, layout],
+  );
 
-      setTimeout(() => {
-        const newMainVideo = mainVideoRef.current;
-        if (newMainVideo) {
-          newMainVideo.currentTime = currentTimeSnapshot;
-          thumbnailRefs.current.forEach((video) => {
-            video.currentTime = currentTimeSnapshot;
-          });
-
-          if (wasPlaying) {
-            const allVideos = getAllVideos();
-            Promise.all(allVideos.map((v) => v.play().catch(() => {}))).then(
-              () => {
-                setIsPlaying(true);
-              },
-            );
-          }
-        }
-      }, 50);
+  // Puts an angle on the main tile. An angle already on stage trades tiles
+  // with the main one, so a side-by-side pair stays together.
+  const handleAngleSelect = useCallback(
+    (angle: VideoAngle) => {
+      const tile = stageAngles.indexOf(angle);
+      if (tile > 0) {
+        const companions = stageAngles.slice(1);
+        companions[tile - 1] = mainAngle;
+        setCompanionAngles(companions);
+      }
+      handleAngleSwitch(angle);
+    },
+    [stageAngles, mainAngle, handleAngleSwitch],
+  );
+
+  const handleLayoutChange = useCallback(
+    (next: ViewerLayout) => {
+      setLayoutChoice(next);
+      if (user) preferencesMutation.mutate({ viewerLayout: next });
+    },
+    [user, preferencesMutation],
+  );
+
+  // Steps to the next layout, skipping the multi-view ones for a single
+  // angle
+  const handleLayoutCycle = useCallback(() => {
+    const options = LAYOUTS.filter(
+      (option) => option.layout === "single" || allAngles.length > 1,
+    );
+    const index = options.findIndex((option) => option.layout === layout);
+    handleLayoutChange(options[(index + 1) % options.length].layout);
+  }, [allAngles.length, layout, handleLayoutChange]);
+
+  // Reaching the loop's out point goes back to its in point. The seek
+  // re-aligns and rebuffers every angle together, so sync holds each time
+  // round.
+  useEffect(() => {
+    if (!isPlaying || loopIn === null || loopOut === null) return;
+    if (loopOut <= loopIn || engine.currentTime < loopOut) return;
+    engine.seek(loopIn);
+    if (isCyclingAngles && allAngles.length > 1) {
+      const next =
+        allAngles[(allAngles.indexOf(mainAngle) + 1) % allAngles.length];
+      handleAngleSelect(next);
+    }
+  }, [
+    engine,
+    currentTime,
+    isPlaying,
+    loopIn,
+    loopOut,
+    isCyclingAngles,
+    allAngles,
+    mainAngle,
+    handleAngleSelect,
+  ]);
+
+  const handleTransitionToggle = useCallback(() => {
+    setTransition((prev) => {
+      const next = prev === "cut" ? "dissolve" : "cut";
+      localStorage.setItem(TRANSITION_STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  const handleScoreBugToggle = useCallback(() => {
+    setIsScoreBugShown((prev) => {
+      localStorage.setItem(SCORE_BUG_STORAGE_KEY, prev ? "hidden" : "shown");
+      return !prev;
+    });
+  }, []);
+
+  const handleCalibrateToggle = useCallback(() => {
+    if (!isCalibrating) engine.pause();
+    setIsCalibrating((prev) => !prev);
+  }, [isCalibrating, engine]);
+
+  const handleOffsetNudge = useCallback(
+    (angle: VideoAngle, delta: number) => {
+      const camera = cameraById.get(angle);
+      if (!camera) return;
+
+      engine.pause();
+      setDraftOffsets((prev) => ({ ...prev, [angle]: camera.offset + delta }));
     },
-    [mainAngle, isPlaying, currentTime, getAllVideos],
+    [cameraById, engine],
   );
 
+  const handleOffsetReset = useCallback((angle: VideoAngle) => {
+    setDraftOffsets(({ [angle]: _discarded, ...rest }) => rest);
+  }, []);
+
+  // The stage goes fullscreen rather than the video, since the element on
+  // stage changes with every angle switch
   const handleFullscreen = useCallback(() => {
-    const mainVideo = mainVideoRef.current;
-    if (mainVideo) {
+    const stage = stageRef.current;
+    if (stage) {
       if (document.fullscreenElement) {
         document.exitFullscreen();
       } else {
-        mainVideo.requestFullscreen();
+        stage.requestFullscreen();
       }
     }
   }, []);
 
   useEffect(() => {
     const handleKeydown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement) return;
+      if (isEditableTarget(e.target)) return;
+      // Ctrl, Cmd and Alt combinations belong to the browser (print, find,
+      // switching tabs and the like)
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
 
-      switch (e.key) {
+      // Letter shortcuts work with Shift or Caps Lock on too
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      switch (key) {
         case " ":
           e.preventDefault();
           handlePlayPause();
@@ -250,17 +749,45 @@ export default function MultiCamViewer() {
           e.preventDefault();
           handleSkip(5);
           break;
+        case ",":
+          handleFrameStep(-1);
+          break;
+        case ".":
+          handleFrameStep(1);
+          break;
+        case "[":
+          handleLoopIn();
+          break;
+        case "]":
+          handleLoopOut();
+          break;
+        case "<":
+          handleRateStep(-1);
+          break;
+        case ">":
+          handleRateStep(1);
+          break;
         case "m":
           handleMuteToggle();
           break;
         case "f":
           handleFullscreen();
           break;
-        case "1":
-        case "2":
-        case "3":
-        case "4":
-          handleAngleSwitch(`angle${e.key}` as VideoAngle);
+        case "l":
+          handleLayoutCycle();
+          break;
+        case "n":
+          handlePointStep(1);
+          break;
+        case "p":
+          handlePointStep(-1);
+          break;
+        default:
+          // Number keys 1-9 select the angle at that position in the match
+          if (/^[1-9]$/.test(e.key)) {
+            const angle = allAngles[Number(e.key) - 1];
+            if (angle) handleAngleSelect(angle);
+          }
           break;
       }
     };
@@ -270,9 +797,16 @@ export default function MultiCamViewer() {
   }, [
     handlePlayPause,
     handleSkip,
+    handleFrameStep,
+    handlePointStep,
+    handleLoopIn,
+    handleLoopOut,
+    handleRateStep,
     handleMuteToggle,
     handleFullscreen,
-    handleAngleSwitch,
+    handleLayoutCycle,
+    handleAngleSelect,
+    allAngles,
   ]);
 
   const showControls = useCallback(() => {
@@ -296,17 +830,6 @@ export default function MultiCamViewer() {
     }
   }, [isPlaying]);
 
-  const handleMainVideoLoaded = useCallback(() => {
-    const mainVideo = mainVideoRef.current;
-    if (mainVideo) {
-      const dur = mainVideo.duration;
-      if (dur && isFinite(dur) && dur > 0) {
-        setDuration(dur);
-        setIsLoading(false);
-      }
-    }
-  }, []);
-
   return (
     <div
       className="min-h-screen bg-background"
@@ -317,7 +840,12 @@ export default function MultiCamViewer() {
         {/* Main Video Section */}
         <div className="flex-1 flex flex-col p-4 lg:p-6">
           {/* Main Video Container */}
-          <div className="relative flex-1 bg-black rounded-lg overflow-hidden group">
+          <div
+            ref={stageRef}
+            className={`relative flex-1 bg-black rounded-lg overflow-hidden group ${
+              layout === "single" ? "touch-none" : ""
+            }`}
+          >
             {/* Loading Overlay */}
             {isLoading && (
               <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/80">
@@ -330,34 +858,86 @@ export default function MultiCamViewer() {
               </div>
             )}
 
-            {/* Camera Label Overlay */}
-            <div className="absolute top-4 left-4 z-10 flex items-center gap-2 px-3 py-1.5 bg-black/60 backdrop-blur-sm rounded-md">
-              <Camera className="w-4 h-4 text-primary" />
-              <span
-                className="text-sm font-medium text-white uppercase tracking-wide"
-                data-testid="text-main-camera-label"
+            {layout === "single" ? (
+              <>
+                {/* Camera Label Overlay, with the score bug beneath */}
+                <div className="absolute top-4 left-4 z-10 flex flex-col items-start gap-2">
+                  <div className="flex items-center gap-2 px-3 py-1.5 bg-black/60 backdrop-blur-sm rounded-md">
+                    <Camera className="w-4 h-4 text-primary" />
+                    <span
+                      className="text-sm font-medium text-white uppercase tracking-wide"
+                      data-testid="text-main-camera-label"
+                    >
+                      {mainCamera?.label}
+                    </span>
+                  </div>
+                  {scoreBug}
+                </div>
+
+                {/* Main Video - the promoted element from the video pool,
+                    zoomed into the region this angle was last left on */}
+                <div
+                  ref={zoomLayerRef}
+                  className="absolute inset-0 origin-top-left"
+                  style={{ transform: zoomTransform(zoom) }}
+                >
+                  <VideoSlot
+                    video={mainVideo}
+                    className="absolute inset-0 w-full h-full object-contain"
+                    muted={isMuted}
+                    testId="video-main"
+                  />
+                </div>
+
+                {zoom.scale > 1 && (
+                  <ZoomMinimap
+                    zoom={zoom}
+                    posterSrc={mainCamera?.posterSrc ?? null}
+                  />
+                )}
+              </>
+            ) : (
+              /* Multi-view - every angle on stage, all on the one clock */
+              <div
+                className={`absolute inset-0 grid gap-1 ${LAYOUT_GRID_CLASSES[layout]}`}
+                data-testid={`stage-${layout}`}
               >
-                {VIDEO_CONFIG[mainAngle].label}
-              </span>
-            </div>
+                {stageAngles.map((angle, tile) => (
+                  <StageTile
+                    key={angle}
+                    angle={angle}
+                    config={cameraById.get(angle)!}
+                    video={videos.get(angle)}
+                    isMain={tile === 0}
+                    muted={tile !== 0 || isMuted}
+                    className={
+                      layout === "one-plus-three" && tile === 0
+                        ? "col-span-3"
+                        : ""
+                    }
+                    onSelect={() => handleAngleSelect(angle)}
+                  >
+                    {tile === 0 && scoreBug}
+                  </StageTile>
+                ))}
+              </div>
+            )}
 
-            {/* Main Video - Single video element that changes src */}
-            <video
-              key={mainAngle}
-              ref={mainVideoRef}
-              className="absolute inset-0 w-full h-full object-contain"
-              muted={isMuted}
-              playsInline
-              preload="auto"
-              onLoadedMetadata={handleMainVideoLoaded}
-              onCanPlayThrough={handleMainVideoLoaded}
-              onLoadedData={handleMainVideoLoaded}
-              onTimeUpdate={handleTimeUpdate}
-              onError={(e) => console.error("Video error:", e)}
-              data-testid={`video-main`}
-            >
-              <source src={VIDEO_CONFIG[mainAngle].src} type="video/mp4" />
-            </video>
+            {/* Dissolve overlay - still of the outgoing angle fading out */}
+            <canvas
+              ref={fadeCanvasRef}
+              className="absolute inset-0 w-full h-full object-contain pointer-events-none opacity-0"
+            />
+
+            {/* Buffering Indicator (waiting for every angle to catch up) */}
+            {isBuffering && !isLoading && (
+              <div
+                className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none"
+                data-testid="indicator-buffering"
+              >
+                <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
 
             {/* Play Button Overlay (when paused) */}
             {!isPlaying && !isLoading && (
@@ -385,26 +965,96 @@ export default function MultiCamViewer() {
                 className="text-xs font-mono text-muted-foreground min-w-[45px]"
                 data-testid="text-current-time"
               >
-                {formatTime(currentTime)}
+                {isFrameStepping && mainCamera
+                  ? formatTimecode(currentTime, cameraFps(mainCamera))
+                  : formatTime(currentTime)}
               </span>
-              <Slider
-                value={[currentTime]}
-                max={duration || 100}
-                step={0.1}
-                onValueChange={handleSeek}
-                className="flex-1"
-                data-testid="slider-timeline"
-              />
+              <Select
+                value={String(rate)}
+                onValueChange={(value) => engine.setRate(Number(value))}
+              >
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <SelectTrigger
+                      className={`w-[72px] h-7 px-2 text-xs font-mono ${
+                        rate === 1 ? "text-muted-foreground" : ""
+                      }`}
+                      data-testid="select-playback-rate"
+                    >
+                      <SelectValue>{formatRate(rate)}</SelectValue>
+                    </SelectTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent>Speed (&lt; / &gt;)</TooltipContent>
+                </Tooltip>
+                <SelectContent>
+                  {PLAYBACK_RATES.map((option) => (
+                    <SelectItem
+                      key={option}
+                      value={String(option)}
+                      className="font-mono text-xs"
+                    >
+                      {formatRate(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex-1 flex flex-col gap-1">
+                {points.length > 0 && (
+                  <PointTimeline
+                    points={points}
+                    players={match.players}
+                    currentTime={currentTime}
+                    percentOf={timelinePercent}
+                    onSeek={(time) => handleSeek([time])}
+                  />
+                )}
+                <div className="relative flex items-center">
+                  <Slider
+                    value={[currentTime]}
+                    min={windowStart}
+                    max={timelineEnd || 100}
+                    step={0.1}
+                    onValueChange={handleSeek}
+                    data-testid="slider-timeline"
+                  />
+                  {hasLoop && (
+                    <div
+                      className="absolute top-1/2 h-2 -translate-y-1/2 rounded-full bg-foreground/30 pointer-events-none"
+                      style={{
+                        left: `${timelinePercent(loopIn)}%`,
+                        width: `${timelinePercent(loopOut) - timelinePercent(loopIn)}%`,
+                      }}
+                      data-testid="marker-loop"
+                    />
+                  )}
+                </div>
+              </div>
               <span
                 className="text-xs font-mono text-muted-foreground min-w-[45px]"
                 data-testid="text-duration"
               >
-                {formatTime(duration)}
+                {formatTime(timelineEnd)}
               </span>
             </div>
 
             {/* Playback Controls */}
             <div className="flex items-center justify-center gap-2">
+              {points.length > 0 && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handlePointStep(-1)}
+                      data-testid="button-previous-point"
+                    >
+                      <ChevronsLeft className="w-5 h-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Previous point (P)</TooltipContent>
+                </Tooltip>
+              )}
+
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -454,6 +1104,22 @@ export default function MultiCamViewer() {
                 <TooltipContent>Skip forward 10s</TooltipContent>
               </Tooltip>
 
+              {points.length > 0 && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handlePointStep(1)}
+                      data-testid="button-next-point"
+                    >
+                      <ChevronsRight className="w-5 h-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Next point (N)</TooltipContent>
+                </Tooltip>
+              )}
+
               <div className="w-px h-6 bg-border mx-2" />
 
               <Tooltip>
@@ -489,36 +1155,277 @@ export default function MultiCamViewer() {
                 </TooltipTrigger>
                 <TooltipContent>Fullscreen (F)</TooltipContent>
               </Tooltip>
+
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant={isLoopPanelOpen || hasLoop ? "secondary" : "ghost"}
+                    size="icon"
+                    onClick={() => setIsLoopPanelOpen((prev) => !prev)}
+                    data-testid="button-loop"
+                  >
+                    <Repeat className="w-5 h-5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>A–B loop ([ / ])</TooltipContent>
+              </Tooltip>
+
+              {points.length > 0 && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={isScoreBugShown ? "secondary" : "ghost"}
+                      size="icon"
+                      onClick={handleScoreBugToggle}
+                      data-testid="button-score-bug"
+                    >
+                      <Trophy className="w-5 h-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {isScoreBugShown ? "Hide score" : "Show score"}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+
+              {canEdit && !playbackWindow && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={isTagging ? "secondary" : "ghost"}
+                      size="icon"
+                      onClick={() => setIsTagging((prev) => !prev)}
+                      data-testid="button-tagging"
+                    >
+                      <ClipboardPen className="w-5 h-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Tag points</TooltipContent>
+                </Tooltip>
+              )}
+
+              {canEdit && (
+                <>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={isCalibrating ? "secondary" : "ghost"}
+                        size="icon"
+                        onClick={handleCalibrateToggle}
+                        data-testid="button-calibrate"
+                      >
+                        <Crosshair className="w-5 h-5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Calibrate sync</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={isManagingFiles ? "secondary" : "ghost"}
+                        size="icon"
+                        onClick={() => setIsManagingFiles((prev) => !prev)}
+                        data-testid="button-camera-files"
+                      >
+                        <Upload className="w-5 h-5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Camera files</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant={isSharing ? "secondary" : "ghost"}
+                        size="icon"
+                        onClick={() => setIsSharing((prev) => !prev)}
+                        data-testid="button-share"
+                      >
+                        <Share2 className="w-5 h-5" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Share links</TooltipContent>
+                  </Tooltip>
+                </>
+              )}
+
+              {canManage && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant={isManagingMembers ? "secondary" : "ghost"}
+                      size="icon"
+                      onClick={() => setIsManagingMembers((prev) => !prev)}
+                      data-testid="button-members"
+                    >
+                      <Users className="w-5 h-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>Members</TooltipContent>
+                </Tooltip>
+              )}
+
+              {layout === "single" && followableTracks.length > 0 && (
+                <Select
+                  value={followedTrack?.id ?? NOT_FOLLOWING}
+                  onValueChange={(value) =>
+                    setFollowTrackId(value === NOT_FOLLOWING ? null : value)
+                  }
+                >
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <SelectTrigger
+                        className={`w-[140px] h-9 ${
+                          followedTrack ? "" : "text-muted-foreground"
+                        }`}
+                        data-testid="select-follow"
+                      >
+                        <ScanEye className="w-4 h-4 mr-2 shrink-0" />
+                        <SelectValue />
+                      </SelectTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>Follow with the camera</TooltipContent>
+                  </Tooltip>
+                  <SelectContent>
+                    <SelectItem value={NOT_FOLLOWING}>No follow</SelectItem>
+                    {followableTracks.map((track) => (
+                      <SelectItem key={track.id} value={track.id}>
+                        {track.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <ToggleGroup
+                type="single"
+                value={layout}
+                onValueChange={(value) => {
+                  if (value) handleLayoutChange(value as ViewerLayout);
+                }}
+                data-testid="toggle-layout"
+              >
+                {LAYOUTS.map(({ layout: option, label, icon: Icon }) => (
+                  <Tooltip key={option}>
+                    <TooltipTrigger asChild>
+                      <ToggleGroupItem
+                        value={option}
+                        aria-label={label}
+                        disabled={option !== "single" && allAngles.length < 2}
+                        data-testid={`toggle-layout-${option}`}
+                      >
+                        <Icon className="w-5 h-5" />
+                      </ToggleGroupItem>
+                    </TooltipTrigger>
+                    <TooltipContent>{label}</TooltipContent>
+                  </Tooltip>
+                ))}
+              </ToggleGroup>
+
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleTransitionToggle}
+                    data-testid="button-transition"
+                  >
+                    {transition === "dissolve" ? (
+                      <Blend className="w-5 h-5" />
+                    ) : (
+                      <Scissors className="w-5 h-5" />
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {transition === "dissolve"
+                    ? "Angle transition: dissolve"
+                    : "Angle transition: cut"}
+                </TooltipContent>
+              </Tooltip>
             </div>
           </div>
+
+          {canEdit && isCalibrating && (
+            <CalibrationPanel
+              match={match}
+              draftOffsets={draftOffsets}
+              onNudge={handleOffsetNudge}
+              onReset={handleOffsetReset}
+            />
+          )}
+
+          {canEdit && isManagingFiles && <CameraUploadPanel match={match} />}
+
+          {isLoopPanelOpen && (
+            <LoopPanel
+              match={match}
+              loopIn={loopIn}
+              loopOut={loopOut}
+              isCyclingAngles={isCyclingAngles}
+              onCyclingChange={setIsCyclingAngles}
+              onSetIn={handleLoopIn}
+              onSetOut={handleLoopOut}
+              onClear={handleLoopClear}
+              onSelectRegion={handleRegionSelect}
+              showSavedRegions={!playbackWindow}
+              camera={mainCamera}
+              score={
+                isScoreBugShown && points.length > 0
+                  ? {
+                      points,
+                      players: match.players,
+                      noAd: match.noAdScoring,
+                    }
+                  : null
+              }
+            />
+          )}
+
+          {canEdit && isTagging && !playbackWindow && (
+            <TaggingPanel match={match} engine={engine} points={points} />
+          )}
+
+          {canEdit && isSharing && (
+            <SharePanel
+              match={match}
+              currentTime={currentTime}
+              mainAngle={mainAngle}
+            />
+          )}
+
+          {canManage && isManagingMembers && <MembersPanel match={match} />}
         </div>
 
         {/* Thumbnail Sidebar */}
-        <div className="w-full lg:w-80 xl:w-96 p-4 lg:p-6 lg:pl-0 flex flex-col gap-4">
+        <div className="w-full lg:w-80 xl:w-96 p-4 lg:p-6 lg:pl-0 flex flex-col gap-4 lg:min-h-0">
           <div className="flex items-center gap-2 mb-2">
             <Camera className="w-5 h-5 text-muted-foreground" />
-            <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+            <h2 className="flex-1 text-sm font-medium text-muted-foreground uppercase tracking-wide">
               Choose your view point
             </h2>
+            {showLibraryLink && (
+              <Button variant="ghost" size="icon" asChild>
+                <Link href="/" title="Match library" data-testid="link-library">
+                  <LayoutGrid className="w-4 h-4" />
+                </Link>
+              </Button>
+            )}
+            <AccountMenu />
           </div>
 
           {/* Horizontal scroll on mobile, vertical stack on desktop */}
-          <div className="flex lg:flex-col gap-4 overflow-x-auto lg:overflow-x-visible pb-2 lg:pb-0 lg:flex-1">
+          <div
+            className="flex lg:flex-col gap-4 overflow-x-auto lg:overflow-x-hidden lg:overflow-y-auto pb-2 lg:pb-0 lg:pr-1 lg:flex-1 lg:min-h-0"
+            data-testid="thumbnail-rail"
+          >
             {thumbnailAngles.map((angle) => (
               <ThumbnailPreview
                 key={angle}
                 angle={angle}
-                config={VIDEO_CONFIG[angle]}
-                videoRef={(el) => {
-                  if (el) {
-                    thumbnailRefs.current.set(angle, el);
-                  } else {
-                    thumbnailRefs.current.delete(angle);
-                  }
-                }}
-                onSelect={() => handleAngleSwitch(angle)}
-                currentTime={currentTime}
-                isPlaying={isPlaying}
+                config={cameraById.get(angle)!}
+                shortcut={shortcutFor(angle)}
+                video={videos.get(angle)}
+                onSelect={() => handleAngleSelect(angle)}
               />
             ))}
           </div>
@@ -529,30 +1436,23 @@ export default function MultiCamViewer() {
               Keyboard Shortcuts
             </h3>
             <div className="grid grid-cols-2 gap-2 text-xs">
-              <div className="flex items-center gap-2">
-                <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
-                  Space
-                </kbd>
-                <span className="text-muted-foreground">Play/Pause</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
-                  M
-                </kbd>
-                <span className="text-muted-foreground">Mute</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
-                  ←/→
-                </kbd>
-                <span className="text-muted-foreground">Seek ±5s</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
-                  1-4
-                </kbd>
-                <span className="text-muted-foreground">Switch angle</span>
-              </div>
+              <ShortcutHint keys="Space" label="Play/Pause" />
+              <ShortcutHint keys="M" label="Mute" />
+              <ShortcutHint keys="←/→" label="Seek ±5s" />
+              <ShortcutHint
+                keys={
+                  allAngles.length > 1
+                    ? `1-${Math.min(allAngles.length, 9)}`
+                    : "1"
+                }
+                label="Switch angle"
+              />
+              <ShortcutHint keys="</>" label="Slower/Faster" />
+              <ShortcutHint keys=",/." label="Frame back/forward" />
+              <ShortcutHint keys="[/]" label="Loop in/out" />
+              <ShortcutHint keys="L" label="Next layout" />
+              <ShortcutHint keys="N/P" label="Next/Previous point" />
+              <ShortcutHint keys="F" label="Fullscreen" />
             </div>
           </div>
         </div>
@@ -561,53 +1461,98 @@ export default function MultiCamViewer() {
   );
 }
 
+// One entry in the sidebar's keyboard shortcuts list
+function ShortcutHint({ keys, label }: { keys: string; label: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      <kbd className="px-2 py-0.5 bg-muted rounded text-muted-foreground font-mono">
+        {keys}
+      </kbd>
+      <span className="text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+interface StageTileProps {
+  angle: VideoAngle;
+  config: MatchCamera;
+  video: HTMLVideoElement | undefined;
+  isMain: boolean;
+  muted: boolean;
+  className: string;
+  onSelect: () => void;
+  // Shown beneath the tile's label
+  children?: React.ReactNode;
+}
+
+// One angle of a multi-view layout. The main tile plays the audio and is
+// outlined; clicking another tile makes it the main one.
+function StageTile({
+  angle,
+  config,
+  video,
+  isMain,
+  muted,
+  className,
+  onSelect,
+  children,
+}: StageTileProps) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`relative min-h-0 overflow-hidden bg-black focus:outline-none ${
+        isMain ? "ring-2 ring-inset ring-primary" : ""
+      } ${className}`}
+      data-testid={`tile-${angle}`}
+    >
+      <VideoSlot
+        video={video}
+        className="absolute inset-0 w-full h-full object-contain"
+        muted={muted}
+        testId={isMain ? "video-main" : undefined}
+      />
+      <div className="absolute top-2 left-2 z-10 flex flex-col items-start gap-2">
+        <div className="flex items-center gap-2 px-2 py-1 bg-black/60 backdrop-blur-sm rounded-md">
+          {isMain && <Camera className="w-3.5 h-3.5 text-primary" />}
+          <span
+            className="text-xs font-medium text-white uppercase tracking-wide"
+            data-testid={isMain ? "text-main-camera-label" : undefined}
+          >
+            {config.label}
+          </span>
+        </div>
+        {children}
+      </div>
+    </button>
+  );
+}
+
 interface ThumbnailPreviewProps {
   angle: VideoAngle;
-  config: (typeof VIDEO_CONFIG)[VideoAngle];
-  videoRef: (el: HTMLVideoElement | null) => void;
+  config: MatchCamera;
+  shortcut?: number;
+  video: HTMLVideoElement | undefined;
   onSelect: () => void;
-  currentTime: number;
-  isPlaying: boolean;
 }
 
 function ThumbnailPreview({
   angle,
   config,
-  videoRef,
+  shortcut,
+  video,
   onSelect,
-  currentTime,
-  isPlaying,
 }: ThumbnailPreviewProps) {
-  const localVideoRef = useRef<HTMLVideoElement | null>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
-
-  const handleRef = useCallback(
-    (el: HTMLVideoElement | null) => {
-      localVideoRef.current = el;
-      videoRef(el);
-    },
-    [videoRef],
+  const [isLoaded, setIsLoaded] = useState(
+    () => !!video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA,
   );
 
   useEffect(() => {
-    const video = localVideoRef.current;
-    if (video && isLoaded) {
-      if (isPlaying) {
-        video.play().catch(() => {});
-      } else {
-        video.pause();
-      }
-    }
-  }, [isPlaying, isLoaded]);
-
-  useEffect(() => {
-    const video = localVideoRef.current;
-    if (video && isLoaded && !isPlaying) {
-      if (Math.abs(video.currentTime - currentTime) > 0.5) {
-        video.currentTime = currentTime;
-      }
-    }
-  }, [currentTime, isLoaded, isPlaying]);
+    if (!video) return;
+    const handleLoaded = () => setIsLoaded(true);
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) handleLoaded();
+    video.addEventListener("loadeddata", handleLoaded);
+    return () => video.removeEventListener("loadeddata", handleLoaded);
+  }, [video]);
 
   return (
     <button
@@ -623,19 +1568,13 @@ function ThumbnailPreview({
       )}
 
       {/* Thumbnail video */}
-      <video
-        ref={handleRef}
+      <VideoSlot
+        video={video}
         className={`w-full h-full object-cover rounded-lg transition-opacity ${
           isLoaded ? "opacity-100" : "opacity-0"
         }`}
         muted
-        playsInline
-        preload="auto"
-        onCanPlayThrough={() => setIsLoaded(true)}
-        onLoadedData={() => setIsLoaded(true)}
-      >
-        <source src={config.src} type="video/mp4" />
-      </video>
+      />
 
       {/* Hover overlay with label */}
       <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent rounded-lg opacity-0 group-hover:opacity-100 transition-opacity">
@@ -650,6 +1589,13 @@ function ThumbnailPreview({
         {config.label}
       </div>
 
+      {/* Number-key shortcut badge */}
+      {shortcut !== undefined && (
+        <kbd className="absolute top-2 right-2 px-1.5 py-0.5 bg-black/60 backdrop-blur-sm rounded text-xs font-mono text-white">
+          {shortcut}
+        </kbd>
+      )}
+
       {/* Click to switch indicator */}
       <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
         <div className="w-10 h-10 flex items-center justify-center rounded-full bg-white/20 backdrop-blur-sm">
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { AccountMenu } from "@/components/account-menu";
+import { apiRequest } from "@/lib/queryClient";
+import { MatchViewer } from "@/pages/multicam-viewer";
+import { Camera } from "lucide-react";
+import type { SharedMatch } from "@shared/schema";
+
+// The viewer opened through a share link: only the shared angles, held to
+// the shared window, for anyone holding the link
+export default function SharedMatchPage() {
+  const { token } = useParams<{ token: string }>();
+  const { data: match, error } = useQuery<SharedMatch>({
+    queryKey: ["/api/shares", token],
+    // Opening the link lets this session stream the shared files
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/shares/${token}/open`);
+      return res.json();
+    },
+  });
+
+  if (error || (match && match.cameras.length === 0)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Camera className="w-8 h-8 text-muted-foreground" />
+          <p
+            className="text-sm text-muted-foreground font-medium"
+            data-testid="text-share-unavailable"
+          >
+            {error?.message.startsWith("410")
+              ? "This link has expired"
+              : "This link is invalid or has been revoked"}
+          </p>
+          <AccountMenu />
+        </div>
+      </div>
+    );
+  }
+
+  if (!match) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          <p className="text-sm text-muted-foreground font-medium">
+            Loading match...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <MatchViewer
+      key={match.id}
+      match={match}
+      urlPath={`/share/${token}`}
+      playbackWindow={{
+        start: match.share.startTime ?? 0,
+        end: match.share.endTime,
+      }}
+    />
+  );
+}
@@ -0,0 +1,68 @@
+CREATE TABLE "match_cameras" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"label" text NOT NULL,
+	"description" text,
+	"src" text NOT NULL,
+	"offset" double precision DEFAULT 0 NOT NULL,
+	"drift_rate" double precision DEFAULT 0 NOT NULL,
+	"sync_confidence" double precision,
+	"manifest_src" text,
+	"proxy_src" text
+);
+--> statement-breakpoint
+CREATE TABLE "matches" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sync_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" double precision DEFAULT 0 NOT NULL,
+	"results" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "transcode_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"camera_id" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" double precision DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "uploads" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"camera_id" varchar NOT NULL,
+	"filename" text NOT NULL,
+	"size" bigint NOT NULL,
+	"offset" bigint DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'uploading' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "match_cameras" ADD CONSTRAINT "match_cameras_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sync_jobs" ADD CONSTRAINT "sync_jobs_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transcode_jobs" ADD CONSTRAINT "transcode_jobs_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transcode_jobs" ADD CONSTRAINT "transcode_jobs_camera_id_match_cameras_id_fk" FOREIGN KEY ("camera_id") REFERENCES "public"."match_cameras"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_camera_id_match_cameras_id_fk" FOREIGN KEY ("camera_id") REFERENCES "public"."match_cameras"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
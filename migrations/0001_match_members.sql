@@ -0,0 +1,13 @@
+CREATE TABLE "match_members" (
+	"match_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "match_members_match_id_user_id_pk" PRIMARY KEY("match_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "is_public" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "match_members" ADD CONSTRAINT "match_members_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "match_members" ADD CONSTRAINT "match_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Matches created before roles existed have no owner; keep them viewable as they were
+UPDATE "matches" SET "is_public" = true;
@@ -0,0 +1,9 @@
+ALTER TABLE "match_cameras" ADD COLUMN "poster_src" text;--> statement-breakpoint
+ALTER TABLE "match_cameras" ADD COLUMN "duration" double precision;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "venue" text;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "tournament" text;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "surface" text;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "players" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "matches" ADD COLUMN "played_at" timestamp;--> statement-breakpoint
+CREATE INDEX "matches_search_idx" ON "matches" USING gin (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '') || ' ' || coalesce(venue, '') || ' ' || coalesce(tournament, '') || ' ' || coalesce(players::text, '')));--> statement-breakpoint
+CREATE INDEX "matches_played_at_idx" ON "matches" USING btree ("played_at");
\ No newline at end of file
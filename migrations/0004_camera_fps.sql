@@ -0,0 +1 @@
+ALTER TABLE "match_cameras" ADD COLUMN "fps" double precision;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "preferences" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "tracks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"camera_id" varchar NOT NULL,
+	"subject" text NOT NULL,
+	"label" text NOT NULL,
+	"samples" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tracks" ADD CONSTRAINT "tracks_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tracks" ADD CONSTRAINT "tracks_camera_id_match_cameras_id_fk" FOREIGN KEY ("camera_id") REFERENCES "public"."match_cameras"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "points" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" varchar NOT NULL,
+	"start_time" double precision NOT NULL,
+	"end_time" double precision NOT NULL,
+	"set_number" integer NOT NULL,
+	"game_number" integer NOT NULL,
+	"server" integer NOT NULL,
+	"winner" integer NOT NULL,
+	"shot_type" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "points" ADD CONSTRAINT "points_match_id_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "matches" ADD COLUMN "no_ad_scoring" boolean DEFAULT false NOT NULL;
\ No newline at end of file
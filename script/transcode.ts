@@ -0,0 +1,81 @@
+import { mkdtemp, readFile, stat } from "fs/promises";
+import os from "os";
+import path from "path";
+import { runFfmpeg } from "../server/ffmpeg";
+import { transcodeFile } from "../server/transcode";
+
+// Runs the transcoding pipeline outside the server, without storage:
+//
+//   npm run transcode -- [input] [outDir]
+//
+// With no input, a short fixture clip (test pattern plus a tone) is
+// generated first, so the pipeline can be checked offline with nothing but
+// ffmpeg installed. Exits non-zero if any expected output is missing.
+
+async function makeFixture(dir: string): Promise<string> {
+  const fixture = path.join(dir, "fixture.mp4");
+  await runFfmpeg([
+    "-y",
+    "-f",
+    "lavfi",
+    "-i",
+    "testsrc2=size=1280x720:rate=30:duration=6",
+    "-f",
+    "lavfi",
+    "-i",
+    "sine=frequency=440:duration=6",
+    "-c:v",
+    "libx264",
+    "-pix_fmt",
+    "yuv420p",
+    "-c:a",
+    "aac",
+    "-shortest",
+    fixture,
+  ]);
+  return fixture;
+}
+
+async function main() {
+  const [inputArg, outArg] = process.argv.slice(2);
+  const workDir = await mkdtemp(path.join(os.tmpdir(), "transcode-"));
+
+  const input = inputArg ? path.resolve(inputArg) : await makeFixture(workDir);
+  const outDir = outArg ? path.resolve(outArg) : path.join(workDir, "out");
+
+  console.log(`transcoding ${input} -> ${outDir}`);
+  let lastReported = -1;
+  const output = await transcodeFile(input, outDir, (progress) => {
+    const percent = Math.floor(progress * 100);
+    if (percent >= lastReported + 10 || percent === 100) {
+      lastReported = percent;
+      console.log(`  ${percent}%`);
+    }
+  });
+
+  const master = await readFile(output.manifestPath, "utf8");
+  const variants = master
+    .split("\n")
+    .filter((line) => line.endsWith(".m3u8"));
+  if (variants.length === 0) {
+    throw new Error(`No renditions listed in ${output.manifestPath}`);
+  }
+  for (const variant of variants) {
+    await stat(path.join(path.dirname(output.manifestPath), variant));
+  }
+  const proxy = await stat(output.proxyPath);
+  await stat(output.posterPath);
+
+  console.log(`manifest: ${output.manifestPath}`);
+  console.log(`renditions: ${variants.join(", ")}`);
+  console.log(`proxy: ${output.proxyPath} (${proxy.size} bytes)`);
+  console.log(`poster: ${output.posterPath}`);
+  console.log(
+    `duration: ${output.duration}s at ${output.fps ?? "unknown"} fps`,
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
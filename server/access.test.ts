@@ -0,0 +1,309 @@
+import type { NextFunction, Request, Response } from "express";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  matchRoles,
+  type Match,
+  type MatchCamera,
+  type MatchRole,
+  type User,
+} from "@shared/schema";
+import type { MatchAction } from "@shared/permissions";
+import {
+  authorizeMatch,
+  cameraStreamAccess,
+  canStreamCamera,
+  requireMatchAccess,
+} from "./access";
+import { grantShare, loginKeepingShares } from "./shares";
+import { storage } from "./storage";
+
+// Without DATABASE_URL the storage singleton is the in-memory one, so each
+// run starts from just the demo match
+
+interface FakeResponse {
+  statusCode: number;
+  body: unknown;
+  locals: Record<string, unknown>;
+  status(code: number): FakeResponse;
+  json(body: unknown): FakeResponse;
+}
+
+function fakeRequest(
+  user: User | undefined,
+  params: Record<string, string> = {},
+): Request {
+  return { user, params, session: {} } as unknown as Request;
+}
+
+function fakeResponse(): FakeResponse {
+  return {
+    statusCode: 200,
+    body: undefined,
+    locals: {},
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+const ACTIONS: MatchAction[] = ["view", "edit", "manage"];
+
+// The status each role is answered with for each action on a private
+// match; 200 means the request goes through
+const EXPECTED_STATUS: Record<MatchRole, Record<MatchAction, number>> = {
+  viewer: { view: 200, edit: 403, manage: 403 },
+  player: { view: 200, edit: 403, manage: 403 },
+  coach: { view: 200, edit: 200, manage: 403 },
+  owner: { view: 200, edit: 200, manage: 200 },
+};
+
+let privateMatch: Match;
+let publicMatch: Match;
+let camera: MatchCamera;
+let outsider: User;
+const members = {} as Record<MatchRole, User>;
+
+beforeAll(async () => {
+  privateMatch = await storage.createMatch({
+    title: "Private",
+    isPublic: false,
+  });
+  publicMatch = await storage.createMatch({ title: "Public", isPublic: true });
+  camera = await storage.createMatchCamera(privateMatch.id, {
+    label: "Side",
+    src: "/videos/side.mp4",
+  });
+  for (const role of matchRoles) {
+    members[role] = await storage.createUser({
+      username: `${role}-user`,
+      password: "hash",
+    });
+    await storage.upsertMatchMember(privateMatch.id, members[role].id, role);
+  }
+  outsider = await storage.createUser({ username: "outsider", password: "x" });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("authorizeMatch", () => {
+  for (const role of matchRoles) {
+    for (const action of ACTIONS) {
+      const status = EXPECTED_STATUS[role][action];
+      it(`answers a ${role} trying to ${action} with ${status}`, async () => {
+        const res = fakeResponse();
+        const access = await authorizeMatch(
+          fakeRequest(members[role]),
+          res as unknown as Response,
+          privateMatch.id,
+          action,
+        );
+
+        expect(res.statusCode).toBe(status);
+        if (status === 200) {
+          expect(access).toEqual({ match: privateMatch, role });
+        } else {
+          expect(access).toBeNull();
+          expect(res.body).toEqual({
+            message: "Your role on this match does not allow this",
+          });
+        }
+      });
+    }
+  }
+
+  it("hides a private match from signed-in non-members", async () => {
+    const res = fakeResponse();
+    const access = await authorizeMatch(
+      fakeRequest(outsider),
+      res as unknown as Response,
+      privateMatch.id,
+      "view",
+    );
+    expect(access).toBeNull();
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("asks anonymous visitors to sign in for a private match", async () => {
+    const res = fakeResponse();
+    await authorizeMatch(
+      fakeRequest(undefined),
+      res as unknown as Response,
+      privateMatch.id,
+      "view",
+    );
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("answers 404 for a match that does not exist, signed in or not", async () => {
+    for (const user of [undefined, outsider]) {
+      const res = fakeResponse();
+      await authorizeMatch(
+        fakeRequest(user),
+        res as unknown as Response,
+        "missing",
+        "view",
+      );
+      expect(res.statusCode).toBe(404);
+    }
+  });
+
+  it("treats anyone on a public match as a viewer", async () => {
+    for (const user of [undefined, outsider]) {
+      const viewing = await authorizeMatch(
+        fakeRequest(user),
+        fakeResponse() as unknown as Response,
+        publicMatch.id,
+        "view",
+      );
+      expect(viewing?.role).toBe("viewer");
+
+      const res = fakeResponse();
+      const editing = await authorizeMatch(
+        fakeRequest(user),
+        res as unknown as Response,
+        publicMatch.id,
+        "edit",
+      );
+      expect(editing).toBeNull();
+      expect(res.statusCode).toBe(403);
+    }
+  });
+});
+
+describe("requireMatchAccess", () => {
+  it("loads the match and role for the route and carries on", async () => {
+    const res = fakeResponse();
+    const next = vi.fn();
+    await requireMatchAccess("edit")(
+      fakeRequest(members.coach, { id: privateMatch.id }),
+      res as unknown as Response,
+      next as NextFunction,
+    );
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals).toEqual({ match: privateMatch, role: "coach" });
+  });
+
+  it("reads the match id from the named parameter", async () => {
+    const next = vi.fn();
+    await requireMatchAccess("manage", "matchId")(
+      fakeRequest(members.owner, { matchId: privateMatch.id }),
+      fakeResponse() as unknown as Response,
+      next as NextFunction,
+    );
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("stops the request when the role falls short", async () => {
+    const res = fakeResponse();
+    const next = vi.fn();
+    await requireMatchAccess("manage")(
+      fakeRequest(members.coach, { id: privateMatch.id }),
+      res as unknown as Response,
+      next as NextFunction,
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.locals).toEqual({});
+  });
+
+  it("passes storage errors on to the error handler", async () => {
+    const error = new Error("connection lost");
+    vi.spyOn(storage, "getMatch").mockRejectedValueOnce(error);
+    const next = vi.fn();
+    await requireMatchAccess("view")(
+      fakeRequest(members.owner, { id: privateMatch.id }),
+      fakeResponse() as unknown as Response,
+      next as NextFunction,
+    );
+    expect(next).toHaveBeenCalledWith(error);
+  });
+});
+
+describe("canStreamCamera", () => {
+  it("lets every role stream the match's files", async () => {
+    for (const role of matchRoles) {
+      expect(
+        await canStreamCamera(fakeRequest(members[role]), privateMatch, camera),
+      ).toBe(true);
+    }
+  });
+
+  it("refuses anyone without a role or a share", async () => {
+    for (const user of [undefined, outsider]) {
+      expect(
+        await canStreamCamera(fakeRequest(user), privateMatch, camera),
+      ).toBe(false);
+    }
+  });
+
+  it("lets a share opened in the session stream its cameras", async () => {
+    const share = await storage.createShare({
+      matchId: privateMatch.id,
+      createdBy: members.owner.id,
+      startTime: null,
+      endTime: null,
+      cameraIds: [camera.id],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const req = fakeRequest(undefined);
+    grantShare(req, share);
+    expect(await canStreamCamera(req, privateMatch, camera)).toBe(true);
+
+    await storage.revokeShare(share.id);
+    expect(await canStreamCamera(req, privateMatch, camera)).toBe(false);
+  });
+
+  it("keeps the session's shares when its visitor signs in", async () => {
+    const share = await storage.createShare({
+      matchId: privateMatch.id,
+      createdBy: members.owner.id,
+      startTime: null,
+      endTime: null,
+      cameraIds: [camera.id],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const req = fakeRequest(undefined);
+    grantShare(req, share);
+    // Signing in regenerates the session, as Passport does
+    Object.assign(req, {
+      login(user: User, done: (err?: unknown) => void) {
+        req.session = {} as Request["session"];
+        req.user = user;
+        done();
+      },
+    });
+
+    const done = vi.fn();
+    loginKeepingShares(req, outsider, done);
+    expect(done).toHaveBeenCalledWith(undefined);
+    expect(req.session.shareIds).toEqual([share.id]);
+    expect(await canStreamCamera(req, privateMatch, camera)).toBe(true);
+  });
+
+  it("holds a share of part of the match to its window", async () => {
+    const share = await storage.createShare({
+      matchId: privateMatch.id,
+      createdBy: members.owner.id,
+      startTime: 10,
+      endTime: 20,
+      cameraIds: [camera.id],
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const req = fakeRequest(undefined);
+    grantShare(req, share);
+
+    expect(await canStreamCamera(req, privateMatch, camera)).toBe(false);
+    expect(await cameraStreamAccess(req, privateMatch, camera)).toEqual([
+      { start: camera.offset + 10, end: camera.offset + 20 },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import type { Request, RequestHandler, Response } from "express";
+import { type Match, type MatchCamera, type MatchRole } from "@shared/schema";
+import { canPerform, type MatchAction } from "@shared/permissions";
+import type { MediaWindow } from "./hls-window";
+import { sharedCameraAccess } from "./shares";
+import { storage } from "./storage";
+
+/* =============================================================================
+ * MATCH ACCESS
+ * =============================================================================
+ * Every match route and media file is checked against the requesting user's
+ * role on the match (see shared/permissions.ts). Someone who may not even
+ * view a match gets a 404, as if it did not exist, or a 401 when they are
+ * not signed in; someone who may view it but not do what they asked gets a
+ * 403. Share links (server/shares.ts) additionally let their visitors
+ * stream the shared cameras' files, within the shared window.
+ * ============================================================================= */
+
+// The user's role on the match: their membership, or viewer for anyone on
+// a public match. Null when they have no access at all.
+export async function getMatchRole(
+  match: Match,
+  user: Express.User | undefined,
+): Promise<MatchRole | null> {
+  const member = user && (await storage.getMatchMember(match.id, user.id));
+  if (member) return member.role;
+  return match.isPublic ? "viewer" : null;
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Sign in to continue" });
+  }
+  next();
+};
+
+// Loads the match and the user's role on it, or sends the error response
+// and returns null unless that role allows the action
+export async function authorizeMatch(
+  req: Request,
+  res: Response,
+  matchId: string,
+  action: MatchAction,
+): Promise<{ match: Match; role: MatchRole } | null> {
+  const match = await storage.getMatch(matchId);
+  const role = match ? await getMatchRole(match, req.user) : null;
+
+  if (!match || !role || !canPerform(role, "view")) {
+    if (req.user || !match) {
+      res.status(404).json({ message: "Match not found" });
+    } else {
+      res.status(401).json({ message: "Sign in to view this match" });
+    }
+    return null;
+  }
+  if (!canPerform(role, action)) {
+    res
+      .status(403)
+      .json({ message: "Your role on this match does not allow this" });
+    return null;
+  }
+  return { match, role };
+}
+
+// Loads the match named by req.params[param] into res.locals.match, with the
+// user's role in res.locals.role, and rejects the request unless that role
+// allows the action
+export function requireMatchAccess(
+  action: MatchAction,
+  param = "id",
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const access = await authorizeMatch(req, res, req.params[param], action);
+      if (!access) return;
+      res.locals.match = access.match;
+      res.locals.role = access.role;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// What of the camera's files may be streamed: all of them for anyone who
+// can view the match, otherwise what the share links opened in this session
+// allow (see sharedCameraAccess)
+export async function cameraStreamAccess(
+  req: Request,
+  match: Match,
+  camera: MatchCamera,
+): Promise<"all" | MediaWindow[]> {
+  if (canPerform(await getMatchRole(match, req.user), "view")) return "all";
+  return sharedCameraAccess(req, camera);
+}
+
+// Whether all of the camera's files may be streamed
+export async function canStreamCamera(
+  req: Request,
+  match: Match,
+  camera: MatchCamera,
+): Promise<boolean> {
+  return (await cameraStreamAccess(req, match, camera)) === "all";
+}
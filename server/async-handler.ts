@@ -0,0 +1,16 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+// Express 4 ignores the promise an async handler returns, so a storage
+// error would leave the request hanging as an unhandled rejection. Wrapped
+// handlers pass it on to the error handler instead.
+export function asyncHandler(
+  handler: (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
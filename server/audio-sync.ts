@@ -0,0 +1,180 @@
+import { type SyncJob, type SyncJobResult } from "@shared/schema";
+import { runFfmpeg } from "./ffmpeg";
+import { resolveMediaInput } from "./media";
+import { storage } from "./storage";
+
+/* =============================================================================
+ * AUDIO AUTO-SYNC
+ * =============================================================================
+ * Every camera records the same ball strikes and crowd noise, so the audio
+ * tracks line up once each file is shifted by its start offset. The job
+ * decodes the opening minutes of each camera's audio into an onset envelope
+ * (how sharply loudness rises in each 20ms frame), cross-correlates every
+ * envelope against the first camera's and stores the best lag as that
+ * camera's offset. Drift rates are left untouched.
+ * ============================================================================= */
+const SAMPLE_RATE = 8000;
+const ENVELOPE_RATE = 50;
+const ANALYSIS_SECONDS = 600;
+const MAX_LAG_SECONDS = 60;
+const MIN_OVERLAP_SECONDS = 10;
+
+async function decodeOnsetEnvelope(src: string): Promise<Float32Array> {
+  const frameSize = SAMPLE_RATE / ENVELOPE_RATE;
+  const energies: number[] = [];
+  let sumSquares = 0;
+  let samples = 0;
+  let leftover = Buffer.alloc(0);
+
+  await runFfmpeg(
+    [
+      "-i",
+      resolveMediaInput(src),
+      "-t",
+      String(ANALYSIS_SECONDS),
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      String(SAMPLE_RATE),
+      "-f",
+      "f32le",
+      "pipe:1",
+    ],
+    (chunk) => {
+      const buf = leftover.length ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = buf.length - (buf.length % 4);
+      for (let i = 0; i < usable; i += 4) {
+        const sample = buf.readFloatLE(i);
+        sumSquares += sample * sample;
+        if (++samples === frameSize) {
+          energies.push(Math.log1p((1000 * sumSquares) / frameSize));
+          sumSquares = 0;
+          samples = 0;
+        }
+      }
+      leftover = buf.subarray(usable);
+    },
+  );
+
+  if (energies.length < MIN_OVERLAP_SECONDS * ENVELOPE_RATE) {
+    throw new Error(`Not enough audio to sync in ${src}`);
+  }
+
+  const onset = new Float32Array(energies.length);
+  for (let i = 1; i < energies.length; i++) {
+    onset[i] = Math.max(0, energies[i] - energies[i - 1]);
+  }
+  return normalize(onset);
+}
+
+// Zero mean, unit variance, so correlation scores read as coefficients
+function normalize(values: Float32Array): Float32Array {
+  let mean = 0;
+  for (let i = 0; i < values.length; i++) mean += values[i];
+  mean /= values.length;
+
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) variance += (values[i] - mean) ** 2;
+  const std = Math.sqrt(variance / values.length) || 1;
+
+  return values.map((v) => (v - mean) / std);
+}
+
+// Finds the lag, in envelope frames, at which other[i + lag] best matches
+// reference[i]. Yields to the event loop periodically so the server stays
+// responsive while a long search runs.
+async function correlate(
+  reference: Float32Array,
+  other: Float32Array,
+): Promise<{ lag: number; confidence: number }> {
+  const maxLag = MAX_LAG_SECONDS * ENVELOPE_RATE;
+  const minOverlap = MIN_OVERLAP_SECONDS * ENVELOPE_RATE;
+  let bestLag = 0;
+  let bestScore = -Infinity;
+
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const start = Math.max(0, -lag);
+    const end = Math.min(reference.length, other.length - lag);
+    if (end - start >= minOverlap) {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += reference[i] * other[i + lag];
+      const score = sum / (end - start);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    if (lag % 250 === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  return { lag: bestLag, confidence: Math.min(1, Math.max(0, bestScore)) };
+}
+
+async function runAudioSync(job: SyncJob) {
+  const cameras = await storage.getMatchCameras(job.matchId);
+  await storage.updateSyncJob(job.id, { status: "running" });
+
+  const totalSteps = cameras.length * 2 - 1;
+  let completedSteps = 0;
+  const advance = () =>
+    storage.updateSyncJob(job.id, {
+      progress: ++completedSteps / totalSteps,
+    });
+
+  const envelopes: Float32Array[] = [];
+  for (const camera of cameras) {
+    // The transcoded proxy decodes much faster than the original
+    envelopes.push(await decodeOnsetEnvelope(camera.proxySrc ?? camera.src));
+    await advance();
+  }
+
+  // The first camera is the reference; its offset stays as it is
+  const [reference, ...others] = cameras;
+  const results: SyncJobResult[] = [
+    { cameraId: reference.id, offset: reference.offset, confidence: 1 },
+  ];
+  for (let i = 0; i < others.length; i++) {
+    const { lag, confidence } = await correlate(envelopes[0], envelopes[i + 1]);
+    results.push({
+      cameraId: others[i].id,
+      offset: reference.offset + lag / ENVELOPE_RATE,
+      confidence,
+    });
+    await advance();
+  }
+
+  for (const result of results) {
+    await storage.updateMatchCamera(result.cameraId, {
+      offset: result.offset,
+      syncConfidence: result.confidence,
+    });
+  }
+  await storage.updateSyncJob(job.id, {
+    status: "completed",
+    progress: 1,
+    results,
+  });
+}
+
+// Creates a sync job for the match and runs it in the background. The
+// returned job is the pending record; poll storage for progress.
+export async function startAudioSync(matchId: string): Promise<SyncJob> {
+  const job = await storage.createSyncJob(matchId);
+  runAudioSync(job)
+    .catch((err: Error) =>
+      storage.updateSyncJob(job.id, {
+        status: "failed",
+        error: err.message,
+      }),
+    )
+    .catch((err: Error) => {
+      console.error(
+        `[audio-sync] job ${job.id} could not be marked failed: ${err.message}`,
+      );
+    });
+  return job;
+}
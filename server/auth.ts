@@ -0,0 +1,221 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { fromZodError } from "zod-validation-error";
+import {
+  registerUserSchema,
+  userPreferencesSchema,
+  type PublicUser,
+  type User as SchemaUser,
+} from "@shared/schema";
+import { asyncHandler } from "./async-handler";
+import { loginKeepingShares } from "./shares";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SchemaUser {}
+  }
+}
+
+/* =============================================================================
+ * AUTHENTICATION
+ * =============================================================================
+ * Username/password accounts with passport-local and cookie sessions.
+ * Passwords are stored as "<scrypt hash>.<salt>" (hex). Sessions live in
+ * Postgres (connect-pg-simple) in production and in memory in development.
+ * ============================================================================= */
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const scryptAsync = promisify(scrypt);
+// Postgres error code for a duplicate key
+const UNIQUE_VIOLATION = "23505";
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [hashHex, salt] = stored.split(".");
+  if (!hashHex || !salt) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser({ password: _password, ...user }: SchemaUser): PublicUser {
+  return user;
+}
+
+function sessionStore(): session.Store {
+  if (process.env.NODE_ENV === "production") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to store sessions in production");
+    }
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  // Prune expired sessions once a day
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function setupAuth(app: Express) {
+  const isProduction = process.env.NODE_ENV === "production";
+  if (isProduction && !process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Secure cookies are set behind the deployment's TLS-terminating proxy
+  if (isProduction) app.set("trust proxy", 1);
+
+  app.use(
+    session({
+      secret: process.env.SESSION_SECRET || "dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      store: sessionStore(),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: isProduction,
+        maxAge: SESSION_MAX_AGE_MS,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        done(null, user);
+      } catch (err) {
+        done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post(
+    "/api/auth/register",
+    asyncHandler(async (req, res, next) => {
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const existing = await storage.getUserByUsername(parsed.data.username);
+      if (existing) {
+        return res.status(409).json({ message: "That username is taken" });
+      }
+
+      let user: SchemaUser;
+      try {
+        user = await storage.createUser({
+          username: parsed.data.username,
+          password: await hashPassword(parsed.data.password),
+        });
+      } catch (err) {
+        // Someone else registered the name since the check above
+        if ((err as { code?: string }).code === UNIQUE_VIOLATION) {
+          return res.status(409).json({ message: "That username is taken" });
+        }
+        throw err;
+      }
+      loginKeepingShares(req, user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    }),
+  );
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (err: Error | null, user: SchemaUser | false) => {
+        if (err) return next(err);
+        if (!user) {
+          return res
+            .status(401)
+            .json({ message: "Invalid username or password" });
+        }
+        loginKeepingShares(req, user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Saves viewer settings that follow the user between devices
+  app.patch(
+    "/api/auth/me/preferences",
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Not signed in" });
+      }
+      const parsed = userPreferencesSchema.strict().safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const user = await storage.updateUserPreferences(
+        req.user.id,
+        parsed.data,
+      );
+      if (!user) {
+        return res.status(401).json({ message: "Not signed in" });
+      }
+      res.json(toPublicUser(user));
+    }),
+  );
+}
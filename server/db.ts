@@ -0,0 +1,41 @@
+import path from "path";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import {
+  drizzle as drizzleNodePg,
+  type NodePgDatabase,
+} from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Generated by `npm run db:generate` from shared/schema.ts
+const MIGRATIONS_DIR = path.resolve(process.cwd(), "migrations");
+
+// Neon's serverless driver only speaks to Neon, over a websocket; any other
+// Postgres (a local one for development, say) is reached with node-postgres
+function isNeon(connectionString: string): boolean {
+  return new URL(connectionString).hostname.endsWith(".neon.tech");
+}
+
+// Any drizzle Postgres database, whatever driver is underneath
+export type Db = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString: string): Db {
+  if (isNeon(connectionString)) {
+    return drizzleNeon({ client: new NeonPool({ connectionString }), schema });
+  }
+  return drizzleNodePg({ client: new pg.Pool({ connectionString }), schema });
+}
+
+// drizzle's Postgres migrators only differ in the database type they
+// accept: each runs the migrations through the database's own session
+export async function runMigrations(db: Db) {
+  await migrate(db as NodePgDatabase<typeof schema>, {
+    migrationsFolder: MIGRATIONS_DIR,
+  });
+}
@@ -0,0 +1,40 @@
+import { type InsertMatch, type InsertMatchCamera } from "@shared/schema";
+
+/* =============================================================================
+ * DEMO MATCH
+ * =============================================================================
+ * The placeholder footage served from the local /videos directory, seeded
+ * so the viewer has something to show on a fresh start (an empty database,
+ * or every start with in-memory storage). Real matches are created through
+ * POST /api/matches.
+ * ============================================================================= */
+export const DEMO_MATCH: InsertMatch = {
+  title: "Demo Match",
+  description: "Placeholder footage from the local /videos directory",
+  isPublic: true,
+  surface: "hard",
+  players: ["Player 1", "Player 2"],
+};
+
+export const DEMO_CAMERAS: InsertMatchCamera[] = [
+  {
+    label: "Court View",
+    description: "Wide angle overhead view of the entire court",
+    src: "/videos/angle1.mp4",
+  },
+  {
+    label: "Player 1",
+    description: "Close-up camera following Player 1",
+    src: "/videos/angle2.mp4",
+  },
+  {
+    label: "Player 2",
+    description: "Close-up camera following Player 2",
+    src: "/videos/angle3.mp4",
+  },
+  {
+    label: "Net Cam",
+    description: "Camera positioned at the net level",
+    src: "/videos/angle4.mp4",
+  },
+];
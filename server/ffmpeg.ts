@@ -0,0 +1,103 @@
+import { spawn } from "child_process";
+
+// Set FFMPEG_PATH / FFPROBE_PATH when the binaries are not on the PATH
+export const ffmpegPath = process.env.FFMPEG_PATH || "ffmpeg";
+export const ffprobePath = process.env.FFPROBE_PATH || "ffprobe";
+
+// Runs a binary, handing each stdout chunk to onData. Rejects with the last
+// line of stderr when it exits non-zero.
+function run(
+  binary: string,
+  args: string[],
+  onData?: (chunk: Buffer) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    let stderr = "";
+    proc.stdout.on("data", (chunk: Buffer) => onData?.(chunk));
+    proc.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    proc.on("error", (err) => {
+      reject(new Error(`Could not start ${binary}: ${err.message}`));
+    });
+    proc.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const lastLine = stderr.trim().split("\n").pop() ?? "";
+        reject(new Error(`${binary} exited with code ${code}: ${lastLine}`));
+      }
+    });
+  });
+}
+
+export function runFfmpeg(
+  args: string[],
+  onData?: (chunk: Buffer) => void,
+): Promise<void> {
+  return run(ffmpegPath, ["-hide_banner", "-nostdin", ...args], onData);
+}
+
+export interface ProbeResult {
+  duration: number;
+  width: number;
+  height: number;
+  // Average frame rate of the video stream, or null when ffprobe does not
+  // report a usable one
+  fps: number | null;
+  hasAudio: boolean;
+}
+
+// ffprobe reports frame rates as fractions such as "30000/1001"
+function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [num, den = "1"] = rate.split("/");
+  const fps = Number(num) / Number(den);
+  return isFinite(fps) && fps > 0 ? fps : null;
+}
+
+export async function probe(input: string): Promise<ProbeResult> {
+  let output = "";
+  await run(
+    ffprobePath,
+    [
+      "-v",
+      "error",
+      "-show_entries",
+      "format=duration:stream=codec_type,width,height,avg_frame_rate,r_frame_rate",
+      "-of",
+      "json",
+      input,
+    ],
+    (chunk) => {
+      output += chunk.toString();
+    },
+  );
+
+  const parsed = JSON.parse(output) as {
+    format?: { duration?: string };
+    streams?: {
+      codec_type?: string;
+      width?: number;
+      height?: number;
+      avg_frame_rate?: string;
+      r_frame_rate?: string;
+    }[];
+  };
+  const streams = parsed.streams ?? [];
+  const video = streams.find((s) => s.codec_type === "video");
+  if (!video) throw new Error(`No video stream in ${input}`);
+
+  return {
+    duration: Number(parsed.format?.duration) || 0,
+    width: video.width ?? 0,
+    height: video.height ?? 0,
+    fps:
+      parseFrameRate(video.avg_frame_rate) ??
+      parseFrameRate(video.r_frame_rate),
+    hasAudio: streams.some((s) => s.codec_type === "audio"),
+  };
+}
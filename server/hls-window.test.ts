@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { gapPlaylist, segmentInWindows } from "./hls-window";
+
+// A rendition playlist as ffmpeg writes it: three 4s segments
+const PLAYLIST = [
+  "#EXTM3U",
+  "#EXT-X-VERSION:6",
+  "#EXT-X-TARGETDURATION:4",
+  "#EXT-X-MEDIA-SEQUENCE:0",
+  "#EXT-X-INDEPENDENT-SEGMENTS",
+  "#EXTINF:4.000000,",
+  "720p_000.ts",
+  "#EXTINF:4.000000,",
+  "720p_001.ts",
+  "#EXTINF:4.000000,",
+  "720p_002.ts",
+  "#EXT-X-ENDLIST",
+  "",
+].join("\n");
+
+describe("gapPlaylist", () => {
+  it("marks the segments outside the windows as gaps", () => {
+    const lines = gapPlaylist(PLAYLIST, [{ start: 5, end: 6 }]).split("\n");
+
+    expect(lines).toContain("#EXT-X-VERSION:8");
+    expect(lines[lines.indexOf("720p_000.ts") - 1]).toBe("#EXT-X-GAP");
+    expect(lines[lines.indexOf("720p_001.ts") - 1]).toBe("#EXTINF:4.000000,");
+    expect(lines[lines.indexOf("720p_002.ts") - 1]).toBe("#EXT-X-GAP");
+  });
+
+  it("keeps every segment a window touches", () => {
+    const gapped = gapPlaylist(PLAYLIST, [
+      { start: 0, end: 1 },
+      { start: 7, end: Infinity },
+    ]);
+    expect(gapped).toBe(PLAYLIST);
+  });
+
+  it("leaves master playlists alone", () => {
+    const master = [
+      "#EXTM3U",
+      "#EXT-X-VERSION:6",
+      "#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720",
+      "720p.m3u8",
+      "",
+    ].join("\n");
+    expect(gapPlaylist(master, [{ start: 0, end: 1 }])).toBe(master);
+  });
+});
+
+describe("segmentInWindows", () => {
+  it("allows only the segments a window overlaps", () => {
+    const windows = [{ start: 5, end: 9 }];
+    expect(segmentInWindows(PLAYLIST, "720p_000.ts", windows)).toBe(false);
+    expect(segmentInWindows(PLAYLIST, "720p_001.ts", windows)).toBe(true);
+    expect(segmentInWindows(PLAYLIST, "720p_002.ts", windows)).toBe(true);
+  });
+
+  it("refuses segments the playlist does not list", () => {
+    expect(
+      segmentInWindows(PLAYLIST, "720p_003.ts", [{ start: 0, end: Infinity }]),
+    ).toBe(false);
+  });
+});
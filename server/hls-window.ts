@@ -0,0 +1,84 @@
+/* =============================================================================
+ * WINDOWED HLS
+ * =============================================================================
+ * A share link to part of a match may only stream that part. The files are
+ * the camera's usual HLS renditions: each rendition playlist is sent with
+ * the segments outside the window marked #EXT-X-GAP, which keeps the
+ * timeline (and so the sync between angles) while players skip them, and
+ * the segments themselves are refused. The window is honoured to the
+ * nearest segment, a few seconds either side.
+ * ============================================================================= */
+
+// A span of one camera's file, in seconds
+export interface MediaWindow {
+  start: number;
+  end: number;
+}
+
+// EXT-X-GAP needs this protocol version
+const GAP_VERSION = 8;
+
+interface PlaylistSegment extends MediaWindow {
+  // Index of the segment's URI line
+  line: number;
+  uri: string;
+}
+
+function playlistSegments(lines: string[]): PlaylistSegment[] {
+  const segments: PlaylistSegment[] = [];
+  let time = 0;
+  let duration: number | null = null;
+  lines.forEach((raw, line) => {
+    const text = raw.trim();
+    const extinf = /^#EXTINF:([\d.]+)/.exec(text);
+    if (extinf) {
+      duration = Number(extinf[1]);
+    } else if (text && !text.startsWith("#") && duration !== null) {
+      segments.push({ line, uri: text, start: time, end: time + duration });
+      time += duration;
+      duration = null;
+    }
+  });
+  return segments;
+}
+
+function overlapsAny(span: MediaWindow, windows: MediaWindow[]): boolean {
+  return windows.some(
+    (window) => span.start < window.end && span.end > window.start,
+  );
+}
+
+// The playlist with every segment outside the windows marked as a gap.
+// Master playlists have no segments and come back unchanged.
+export function gapPlaylist(playlist: string, windows: MediaWindow[]): string {
+  const lines = playlist.split("\n");
+  const gaps = new Set(
+    playlistSegments(lines)
+      .filter((segment) => !overlapsAny(segment, windows))
+      .map((segment) => segment.line),
+  );
+  if (gaps.size === 0) return playlist;
+
+  return lines
+    .flatMap((line, i) => {
+      if (gaps.has(i)) return ["#EXT-X-GAP", line];
+      const version = /^#EXT-X-VERSION:(\d+)/.exec(line.trim());
+      if (version && Number(version[1]) < GAP_VERSION) {
+        return [`#EXT-X-VERSION:${GAP_VERSION}`];
+      }
+      return [line];
+    })
+    .join("\n");
+}
+
+// Whether the playlist lists the segment file at a time inside the windows
+export function segmentInWindows(
+  playlist: string,
+  segmentName: string,
+  windows: MediaWindow[],
+): boolean {
+  const segment = playlistSegments(playlist.split("\n")).find(
+    ({ uri }) => uri.split(/[?#]/)[0] === segmentName,
+  );
+  return !!segment && overlapsAny(segment, windows);
+}
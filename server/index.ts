@@ -1,7 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { prepareStorage } from "./storage";
 import { serveStatic } from "./static";
-import { createServer } from "http";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 
 const app = express();
 const httpServer = createServer(app);
@@ -12,13 +13,18 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
+function keepRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  req.rawBody = buf;
+}
+
+// Imported tracking data carries a bounding box for every frame, so only
+// that route takes bodies this large. The body is parsed once; the default
+// parser below leaves it alone.
+app.post(
+  "/api/matches/:id/tracks",
+  express.json({ limit: "25mb", verify: keepRawBody }),
 );
+app.use(express.json({ verify: keepRawBody }));
 
 app.use(express.urlencoded({ extended: false }));
 
@@ -33,6 +39,9 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Longer response bodies (a match's tracks, say) are cut short in the log
+const MAX_LOGGED_BODY = 500;
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -49,7 +58,12 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        const body = JSON.stringify(capturedJsonResponse);
+        logLine += ` :: ${
+          body.length > MAX_LOGGED_BODY
+            ? `${body.slice(0, MAX_LOGGED_BODY)}… (${body.length} chars)`
+            : body
+        }`;
       }
 
       log(logLine);
@@ -60,6 +74,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await prepareStorage();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
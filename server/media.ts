@@ -0,0 +1,169 @@
+import { readFile, readdir, rm } from "fs/promises";
+import path from "path";
+import type { NextFunction, Response } from "express";
+import {
+  gapPlaylist,
+  segmentInWindows,
+  type MediaWindow,
+} from "./hls-window";
+
+// Generated and uploaded camera files live under MEDIA_DIR (default
+// ./media) and are served from /media. Placeholder footage still comes
+// from the client's public directory.
+export const MEDIA_URL_PREFIX = "/media";
+export const mediaRoot = path.resolve(
+  process.env.MEDIA_DIR || path.join(process.cwd(), "media"),
+);
+
+export function publicDir(): string {
+  return process.env.NODE_ENV === "production"
+    ? path.resolve(__dirname, "public")
+    : path.resolve(process.cwd(), "client", "public");
+}
+
+// Where a camera's files for one match are written
+export function cameraMediaDir(matchId: string, cameraId: string): string {
+  return path.join(mediaRoot, "matches", matchId, cameraId);
+}
+
+// The file under mediaRoot a site path (e.g. "/matches/m/c/hls/a.ts")
+// names, or null unless it lies inside dir. Decoded and normalised the way
+// sendFile does it, so ".." segments cannot step out of the directory
+// access was checked for.
+export function fileWithin(dir: string, sitePath: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(sitePath);
+  } catch {
+    return null;
+  }
+  const file = path.join(mediaRoot, decoded);
+  return file.startsWith(dir + path.sep) ? file : null;
+}
+
+// Each upload and transcode writes into its own version directory, so a
+// file under mediaRoot never changes once its URL has been published. Once
+// a new version is live the older ones can go.
+export async function removeOtherVersions(parent: string, keep: string) {
+  const entries = await readdir(parent).catch(() => [] as string[]);
+  await Promise.all(
+    entries
+      .filter((entry) => entry !== keep)
+      .map((entry) => rm(path.join(parent, entry), { recursive: true, force: true })),
+  );
+}
+
+// The URL a file under mediaRoot is served at
+export function mediaUrl(filePath: string): string {
+  const relative = path.relative(mediaRoot, filePath).split(path.sep);
+  return [MEDIA_URL_PREFIX, ...relative.map(encodeURIComponent)].join("/");
+}
+
+// Camera sources are either absolute URLs, which ffmpeg can read directly,
+// or site paths: /media/... under mediaRoot, anything else under the
+// client's public directory (e.g. /videos/angle1.mp4).
+export function resolveMediaInput(src: string): string {
+  if (/^https?:\/\//.test(src)) return src;
+
+  const sitePath = path.posix.normalize(decodeURIComponent(src.split(/[?#]/)[0]));
+  if (sitePath.startsWith(`${MEDIA_URL_PREFIX}/`)) {
+    return path.join(mediaRoot, sitePath.slice(MEDIA_URL_PREFIX.length));
+  }
+  return path.join(publicDir(), sitePath);
+}
+
+/* =============================================================================
+ * BYTE SERVING
+ * =============================================================================
+ * Camera files are sent with res.sendFile, which answers Range requests with
+ * 206 Partial Content (416 when unsatisfiable), and sets ETag and
+ * Last-Modified so conditional requests get 304s. Versioned files under
+ * mediaRoot are cached for a year; placeholder footage in the public
+ * directory can be replaced in place, so it is revalidated daily. Both are
+ * private: access depends on the match the file belongs to.
+ * ============================================================================= */
+export const IMMUTABLE_CACHE_CONTROL = "private, max-age=31536000, immutable";
+export const PLACEHOLDER_CACHE_CONTROL = "private, max-age=86400";
+
+// Sends the file at sitePath (relative to root), e.g. "/videos/a.mp4"
+export function sendMediaFile(
+  res: Response,
+  next: NextFunction,
+  root: string,
+  sitePath: string,
+  cacheControl: string,
+) {
+  res.sendFile(
+    sitePath,
+    {
+      root,
+      acceptRanges: true,
+      etag: true,
+      lastModified: true,
+      cacheControl: false,
+      dotfiles: "deny",
+      headers: { "Cache-Control": cacheControl },
+    },
+    (err?: Error & { status?: number }) => {
+      // Aborted downloads (seeking cancels the previous range) land here
+      // after headers were sent; there is nothing left to answer
+      if (!err || res.headersSent) return;
+      if (err.status === 404 || err.status === 403) {
+        res.status(404).json({ message: "File not found" });
+      } else {
+        next(err);
+      }
+    },
+  );
+}
+
+// Playlists cut down for one share are not the files on disk, so they are
+// fetched afresh each time
+const WINDOWED_PLAYLIST_CACHE_CONTROL = "private, no-cache";
+
+// Sends the file at sitePath (relative to mediaRoot, resolved to file) to a
+// share link visitor who may only see the windows of the camera's file (see
+// server/hls-window.ts). Only the HLS renditions and the poster can be cut
+// down that way; source files and proxies are refused.
+export async function sendWindowedMediaFile(
+  res: Response,
+  next: NextFunction,
+  sitePath: string,
+  file: string,
+  windows: MediaWindow[],
+) {
+  const name = path.basename(file);
+  const notFound = () => res.status(404).json({ message: "File not found" });
+
+  if (name === "poster.jpg") {
+    return sendMediaFile(
+      res,
+      next,
+      mediaRoot,
+      sitePath,
+      IMMUTABLE_CACHE_CONTROL,
+    );
+  }
+
+  if (name.endsWith(".m3u8")) {
+    const playlist = await readFile(file, "utf8").catch(() => null);
+    if (playlist === null) return notFound();
+    return res
+      .type("application/vnd.apple.mpegurl")
+      .set("Cache-Control", WINDOWED_PLAYLIST_CACHE_CONTROL)
+      .send(gapPlaylist(playlist, windows));
+  }
+
+  // Segments are named after their rendition's playlist: 720p_004.ts is
+  // listed in 720p.m3u8
+  const rendition = /^(.+)_\d+\.ts$/.exec(name);
+  if (!rendition) return notFound();
+  const playlist = await readFile(
+    path.join(path.dirname(file), `${rendition[1]}.m3u8`),
+    "utf8",
+  ).catch(() => null);
+  if (playlist === null || !segmentInWindows(playlist, name, windows)) {
+    return notFound();
+  }
+  sendMediaFile(res, next, mediaRoot, sitePath, IMMUTABLE_CACHE_CONTROL);
+}
@@ -0,0 +1,365 @@
+import { PGlite } from "@electric-sql/pglite";
+import { sql } from "drizzle-orm";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import pg from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { matchSearchSchema, type Match, type User } from "@shared/schema";
+import type { Db } from "./db";
+import { DEMO_CAMERAS, DEMO_MATCH } from "./demo-match";
+import { PgStorage } from "./pg-storage";
+
+/* =============================================================================
+ * PgStorage against a real Postgres: an in-process pglite database by
+ * default, or the one at TEST_DATABASE_URL (through node-postgres, as
+ * production reaches a local server). That database is wiped first, so
+ * only point it at a throwaway one.
+ * ============================================================================= */
+
+async function openDb(): Promise<{ db: Db; close: () => Promise<void> }> {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    const client = new PGlite();
+    return {
+      db: drizzlePglite({ client, schema }),
+      close: () => client.close(),
+    };
+  }
+
+  const pool = new pg.Pool({ connectionString: url });
+  const db = drizzleNodePg({ client: pool, schema });
+  await db.execute(sql`drop schema if exists drizzle cascade`);
+  await db.execute(sql`drop schema public cascade`);
+  await db.execute(sql`create schema public`);
+  return { db, close: () => pool.end() };
+}
+
+const search = (query: Record<string, string> = {}) =>
+  matchSearchSchema.parse(query);
+
+let storage: PgStorage;
+let close: () => Promise<void>;
+let owner: User;
+let match: Match;
+
+beforeAll(async () => {
+  const opened = await openDb();
+  close = opened.close;
+  storage = new PgStorage(opened.db);
+  await storage.prepare();
+
+  owner = await storage.createUser({ username: "owner", password: "hash" });
+  match = await storage.createMatch({
+    title: "Club final",
+    isPublic: false,
+    players: ["Ana Ruiz", "Bea Lang"],
+    surface: "clay",
+    playedAt: new Date("2024-05-04"),
+  });
+  await storage.upsertMatchMember(match.id, owner.id, "owner");
+}, 60_000);
+
+afterAll(async () => {
+  await close?.();
+});
+
+describe("prepare", () => {
+  it("migrates and seeds the demo match into an empty database", async () => {
+    const { matches } = await storage.searchMatches(search());
+    expect(matches.map((m) => m.title)).toEqual([DEMO_MATCH.title]);
+    const cameras = await storage.getMatchCameras(matches[0].id);
+    expect(cameras.map((c) => c.label)).toEqual(
+      DEMO_CAMERAS.map((c) => c.label),
+    );
+  });
+
+  it("does not seed again or fail on a second run", async () => {
+    await storage.prepare();
+    const { total } = await storage.searchMatches(search());
+    expect(total).toBe(1);
+  });
+
+  it("fails jobs a previous process left running", async () => {
+    const [camera] = await storage.getMatchCameras(
+      (await storage.searchMatches(search())).matches[0].id,
+    );
+    const job = await storage.createTranscodeJob(camera.matchId, camera.id);
+    await storage.updateTranscodeJob(job.id, { status: "running" });
+
+    await storage.prepare();
+    expect(await storage.getTranscodeJob(job.id)).toMatchObject({
+      status: "failed",
+      error: "Interrupted by a server restart",
+    });
+  });
+});
+
+describe("users", () => {
+  it("finds users by id and username", async () => {
+    expect(await storage.getUser(owner.id)).toEqual(owner);
+    expect(await storage.getUserByUsername("owner")).toEqual(owner);
+    expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+  });
+
+  it("rejects a duplicate username with a unique violation", async () => {
+    await expect(
+      storage.createUser({ username: "owner", password: "other" }),
+    ).rejects.toMatchObject({ code: "23505" });
+  });
+
+  it("merges preferences into the saved ones", async () => {
+    const user = await storage.createUser({
+      username: "prefs",
+      password: "hash",
+    });
+    expect(user.preferences).toEqual({});
+    await storage.updateUserPreferences(user.id, { viewerLayout: "grid" });
+    await storage.updateUserPreferences(user.id, {});
+    expect((await storage.getUser(user.id))?.preferences).toEqual({
+      viewerLayout: "grid",
+    });
+  });
+});
+
+describe("matches and members", () => {
+  it("lists private matches only to their members", async () => {
+    const anonymous = await storage.searchMatches(search());
+    expect(anonymous.matches.map((m) => m.id)).not.toContain(match.id);
+
+    const member = await storage.searchMatches(search(), owner.id);
+    expect(member.total).toBe(2);
+    // Most recently played first; the demo match has no date, so it
+    // sorts by when it was created
+    expect(member.matches.map((m) => m.id)).toEqual([
+      anonymous.matches[0].id,
+      match.id,
+    ]);
+  });
+
+  it("searches by text, player, surface and date", async () => {
+    const ids = async (query: Record<string, string>) =>
+      (await storage.searchMatches(search(query), owner.id)).matches.map(
+        (m) => m.id,
+      );
+    expect(await ids({ q: "final" })).toEqual([match.id]);
+    expect(await ids({ player: "ruiz" })).toEqual([match.id]);
+    expect(await ids({ player: "100%" })).toEqual([]);
+    expect(await ids({ surface: "clay" })).toEqual([match.id]);
+    expect(await ids({ from: "2024-05-04", to: "2024-05-04" })).toEqual([
+      match.id,
+    ]);
+    expect(await ids({ from: "2024-05-05" })).toEqual([]);
+  });
+
+  it("pages results", async () => {
+    const page = await storage.searchMatches(
+      search({ page: "2", pageSize: "1" }),
+      owner.id,
+    );
+    expect(page.total).toBe(2);
+    expect(page.matches.map((m) => m.id)).toEqual([match.id]);
+  });
+
+  it("updates matches, leaving unnamed fields alone", async () => {
+    const updated = await storage.updateMatch(match.id, { noAdScoring: true });
+    expect(updated).toMatchObject({ title: "Club final", noAdScoring: true });
+    expect(await storage.updateMatch(match.id, {})).toEqual(updated);
+    expect(
+      await storage.updateMatch("missing", { title: "x" }),
+    ).toBeUndefined();
+  });
+
+  it("changes a member's role in place and lists members", async () => {
+    const coach = await storage.createUser({
+      username: "coach",
+      password: "hash",
+    });
+    await storage.upsertMatchMember(match.id, coach.id, "player");
+    await storage.upsertMatchMember(match.id, coach.id, "coach");
+
+    const members = await storage.getMatchMembers(match.id);
+    expect(members.map(({ username, role }) => [username, role])).toEqual([
+      ["owner", "owner"],
+      ["coach", "coach"],
+    ]);
+
+    expect(await storage.deleteMatchMember(match.id, coach.id)).toBe(true);
+    expect(await storage.deleteMatchMember(match.id, coach.id)).toBe(false);
+    expect(await storage.getMatchMember(match.id, coach.id)).toBeUndefined();
+  });
+});
+
+describe("cameras and jobs", () => {
+  it("orders cameras by position and finds them by media URL", async () => {
+    const second = await storage.createMatchCamera(match.id, {
+      label: "Baseline",
+      src: "/videos/b.mp4",
+      position: 1,
+    });
+    const first = await storage.createMatchCamera(match.id, {
+      label: "Side",
+      src: "/videos/a.mp4",
+      position: 0,
+    });
+    expect((await storage.getMatchCameras(match.id)).map((c) => c.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+
+    await storage.updateMatchCamera(first.id, {
+      proxySrc: "/media/a/proxy.mp4",
+      offset: 1.5,
+    });
+    const found = await storage.getMatchCamerasByMedia("/media/a/proxy.mp4");
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ id: first.id, offset: 1.5 });
+  });
+
+  it("tracks the latest sync, transcode and upload", async () => {
+    const [camera] = await storage.getMatchCameras(match.id);
+
+    const sync = await storage.createSyncJob(match.id);
+    await storage.updateSyncJob(sync.id, {
+      status: "completed",
+      progress: 1,
+      results: [{ cameraId: camera.id, offset: 2, confidence: 0.9 }],
+    });
+    expect(await storage.getLatestSyncJob(match.id)).toMatchObject({
+      id: sync.id,
+      status: "completed",
+      results: [{ cameraId: camera.id, offset: 2, confidence: 0.9 }],
+    });
+
+    const transcode = await storage.createTranscodeJob(match.id, camera.id);
+    await storage.updateTranscodeJob(transcode.id, { progress: 0.5 });
+    expect(await storage.getLatestTranscodeJob(camera.id)).toMatchObject({
+      id: transcode.id,
+      status: "pending",
+      progress: 0.5,
+    });
+
+    // Sizes beyond 32 bits survive the round trip
+    const size = 6 * 1024 ** 3;
+    const upload = await storage.createUpload(match.id, camera.id, {
+      filename: "court.mp4",
+      size,
+    });
+    await storage.updateUpload(upload.id, { offset: size / 2 });
+    expect(await storage.getLatestUpload(camera.id)).toMatchObject({
+      id: upload.id,
+      size,
+      offset: size / 2,
+      status: "uploading",
+    });
+  });
+});
+
+describe("match content", () => {
+  it("keeps only unrevoked shares in the match's list", async () => {
+    const share = await storage.createShare({
+      matchId: match.id,
+      createdBy: owner.id,
+      startTime: 10,
+      endTime: 40,
+      cameraIds: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    expect(await storage.getMatchShares(match.id)).toEqual([share]);
+
+    const revoked = await storage.revokeShare(share.id);
+    expect(revoked?.revokedAt).toBeInstanceOf(Date);
+    // Revoking again keeps the first revocation time
+    expect(await storage.revokeShare(share.id)).toEqual(revoked);
+    expect(await storage.getMatchShares(match.id)).toEqual([]);
+  });
+
+  it("orders regions and points along the timeline", async () => {
+    const late = await storage.createRegion({
+      matchId: match.id,
+      createdBy: owner.id,
+      name: "Second set",
+      startTime: 900,
+      endTime: 1800,
+    });
+    const early = await storage.createRegion({
+      matchId: match.id,
+      createdBy: owner.id,
+      name: "First set",
+      startTime: 0,
+      endTime: 900,
+    });
+    expect((await storage.getMatchRegions(match.id)).map((r) => r.id)).toEqual([
+      early.id,
+      late.id,
+    ]);
+    expect(await storage.deleteRegion(late.id)).toBe(true);
+
+    const point = {
+      matchId: match.id,
+      setNumber: 1,
+      gameNumber: 1,
+      server: 0,
+      winner: 0,
+      shotType: null,
+    } as const;
+    const second = await storage.createPoint({
+      ...point,
+      startTime: 30,
+      endTime: 40,
+    });
+    const first = await storage.createPoint({
+      ...point,
+      startTime: 10,
+      endTime: 20,
+    });
+    expect((await storage.getMatchPoints(match.id)).map((p) => p.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+
+    expect(
+      await storage.updatePoint(second.id, { winner: 1, shotType: "ace" }),
+    ).toMatchObject({ winner: 1, shotType: "ace", startTime: 30 });
+    expect(await storage.deletePoint(first.id)).toBe(true);
+    expect(await storage.getPoint(first.id)).toBeUndefined();
+  });
+
+  it("lists tracks without their samples", async () => {
+    const [camera] = await storage.getMatchCameras(match.id);
+    const samples = [
+      { t: 1, x: 0.1, y: 0.2, w: 0.05, h: 0.1 },
+      { t: 1.5, x: 0.2, y: 0.2, w: 0.05, h: 0.1 },
+      { t: 2, x: 0.3, y: 0.2, w: 0.05, h: 0.1 },
+    ];
+    const created = await storage.createTrack({
+      matchId: match.id,
+      cameraId: camera.id,
+      subject: "ball",
+      label: "Ball",
+      samples,
+    });
+    expect(created).toMatchObject({ sampleCount: 3, startTime: 1, endTime: 2 });
+    expect(created).not.toHaveProperty("samples");
+
+    expect(await storage.getMatchTracks(match.id)).toEqual([created]);
+    expect((await storage.getTrack(created.id))?.samples).toEqual(samples);
+  });
+});
+
+describe("deleting a match", () => {
+  it("removes everything that belongs to it", async () => {
+    const [camera] = await storage.getMatchCameras(match.id);
+    expect(await storage.deleteMatch(match.id)).toBe(true);
+
+    expect(await storage.getMatch(match.id)).toBeUndefined();
+    expect(await storage.getMatchCamera(camera.id)).toBeUndefined();
+    expect(await storage.getMatchMembers(match.id)).toEqual([]);
+    expect(await storage.getMatchPoints(match.id)).toEqual([]);
+    expect(await storage.getMatchTracks(match.id)).toEqual([]);
+    expect(await storage.getLatestUpload(camera.id)).toBeUndefined();
+    expect(await storage.deleteMatch(match.id)).toBe(false);
+    // Users outlive their matches
+    expect(await storage.getUser(owner.id)).toEqual(owner);
+  });
+});
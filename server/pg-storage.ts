@@ -0,0 +1,597 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  exists,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  matchCameras,
+  matchMembers,
+  matchSearchDocument,
+  matches,
+  points,
+  regions,
+  shares,
+  syncJobs,
+  tracks,
+  transcodeJobs,
+  uploads,
+  users,
+  type User,
+  type InsertUser,
+  type UserPreferences,
+  type Match,
+  type InsertMatch,
+  type MatchSearch,
+  type MatchMember,
+  type MatchMemberWithUser,
+  type MatchRole,
+  type MatchCamera,
+  type InsertMatchCamera,
+  type UpdateMatchCamera,
+  type SyncJob,
+  type TranscodeJob,
+  type Upload,
+  type InsertUpload,
+  type Share,
+  type InsertShare,
+  type Region,
+  type InsertRegion,
+  type Point,
+  type InsertPoint,
+  type UpdatePoint,
+  type Track,
+  type InsertTrack,
+  type TrackSummary,
+} from "@shared/schema";
+import { runMigrations, type Db } from "./db";
+import { DEMO_CAMERAS, DEMO_MATCH } from "./demo-match";
+import type { IStorage } from "./storage";
+
+// A track's columns with its samples reduced to their count and time span,
+// so listing tracks does not load every bounding box
+const trackSummaryColumns = {
+  id: tracks.id,
+  matchId: tracks.matchId,
+  cameraId: tracks.cameraId,
+  subject: tracks.subject,
+  label: tracks.label,
+  createdAt: tracks.createdAt,
+  sampleCount: sql`jsonb_array_length(${tracks.samples})`.mapWith(Number),
+  startTime: sql`(${tracks.samples} -> 0 ->> 't')::float8`.mapWith(Number),
+  endTime: sql`(${tracks.samples} -> -1 ->> 't')::float8`.mapWith(Number),
+};
+
+// IStorage over Postgres via drizzle. Child rows (cameras, jobs, uploads)
+// are removed by the schema's ON DELETE CASCADE foreign keys.
+export class PgStorage implements IStorage {
+  constructor(private db: Db) {}
+
+  // Applies pending migrations, fails jobs a previous process never
+  // finished, then seeds the demo match into an empty database
+  async prepare() {
+    await runMigrations(this.db);
+
+    const interrupted = {
+      status: "failed" as const,
+      error: "Interrupted by a server restart",
+      updatedAt: new Date(),
+    };
+    await this.db
+      .update(syncJobs)
+      .set(interrupted)
+      .where(inArray(syncJobs.status, ["pending", "running"]));
+    await this.db
+      .update(transcodeJobs)
+      .set(interrupted)
+      .where(inArray(transcodeJobs.status, ["pending", "running"]));
+
+    const [existing] = await this.db.select().from(matches).limit(1);
+    if (existing) return;
+    const match = await this.createMatch(DEMO_MATCH);
+    for (let position = 0; position < DEMO_CAMERAS.length; position++) {
+      await this.createMatchCamera(match.id, {
+        ...DEMO_CAMERAS[position],
+        position,
+      });
+    }
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserPreferences(
+    id: string,
+    preferences: UserPreferences,
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({
+        preferences: sql`${users.preferences} || ${JSON.stringify(preferences)}::jsonb`,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async searchMatches(
+    search: MatchSearch,
+    userId?: string,
+  ): Promise<{ matches: Match[]; total: number }> {
+    const isPublic = eq(matches.isPublic, true);
+    const conditions: (SQL | undefined)[] = [
+      userId
+        ? or(
+            isPublic,
+            exists(
+              this.db
+                .select()
+                .from(matchMembers)
+                .where(
+                  and(
+                    eq(matchMembers.matchId, matches.id),
+                    eq(matchMembers.userId, userId),
+                  ),
+                ),
+            ),
+          )
+        : isPublic,
+    ];
+    if (search.q) {
+      conditions.push(
+        sql`${matchSearchDocument} @@ websearch_to_tsquery('simple', ${search.q})`,
+      );
+    }
+    if (search.player) {
+      const pattern = `%${search.player.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        sql`exists (select 1 from jsonb_array_elements_text(${matches.players}) as player where player ilike ${pattern})`,
+      );
+    }
+    if (search.surface) conditions.push(eq(matches.surface, search.surface));
+    if (search.from) conditions.push(gte(matches.playedAt, search.from));
+    if (search.to) conditions.push(lt(matches.playedAt, search.to));
+    const where = and(...conditions);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(matches)
+      .where(where);
+    const page = await this.db
+      .select()
+      .from(matches)
+      .where(where)
+      .orderBy(desc(sql`coalesce(${matches.playedAt}, ${matches.createdAt})`))
+      .limit(search.pageSize)
+      .offset((search.page - 1) * search.pageSize);
+    return { matches: page, total };
+  }
+
+  async getMatch(id: string): Promise<Match | undefined> {
+    const [match] = await this.db
+      .select()
+      .from(matches)
+      .where(eq(matches.id, id));
+    return match;
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const [match] = await this.db
+      .insert(matches)
+      .values(insertMatch)
+      .returning();
+    return match;
+  }
+
+  async updateMatch(
+    id: string,
+    update: Partial<InsertMatch>,
+  ): Promise<Match | undefined> {
+    if (Object.keys(update).length === 0) return this.getMatch(id);
+    const [match] = await this.db
+      .update(matches)
+      .set(update)
+      .where(eq(matches.id, id))
+      .returning();
+    return match;
+  }
+
+  async deleteMatch(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(matches)
+      .where(eq(matches.id, id))
+      .returning({ id: matches.id });
+    return deleted.length > 0;
+  }
+
+  async getMatchMember(
+    matchId: string,
+    userId: string,
+  ): Promise<MatchMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(matchMembers)
+      .where(
+        and(eq(matchMembers.matchId, matchId), eq(matchMembers.userId, userId)),
+      );
+    return member;
+  }
+
+  async getMatchMembers(matchId: string): Promise<MatchMemberWithUser[]> {
+    const rows = await this.db
+      .select({ member: matchMembers, username: users.username })
+      .from(matchMembers)
+      .innerJoin(users, eq(users.id, matchMembers.userId))
+      .where(eq(matchMembers.matchId, matchId))
+      .orderBy(asc(matchMembers.createdAt));
+    return rows.map(({ member, username }) => ({ ...member, username }));
+  }
+
+  async upsertMatchMember(
+    matchId: string,
+    userId: string,
+    role: MatchRole,
+  ): Promise<MatchMember> {
+    const [member] = await this.db
+      .insert(matchMembers)
+      .values({ matchId, userId, role })
+      .onConflictDoUpdate({
+        target: [matchMembers.matchId, matchMembers.userId],
+        set: { role },
+      })
+      .returning();
+    return member;
+  }
+
+  async deleteMatchMember(matchId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(matchMembers)
+      .where(
+        and(eq(matchMembers.matchId, matchId), eq(matchMembers.userId, userId)),
+      )
+      .returning({ userId: matchMembers.userId });
+    return deleted.length > 0;
+  }
+
+  async getMatchCameras(matchId: string): Promise<MatchCamera[]> {
+    return this.db
+      .select()
+      .from(matchCameras)
+      .where(eq(matchCameras.matchId, matchId))
+      .orderBy(asc(matchCameras.position));
+  }
+
+  async getMatchCamera(id: string): Promise<MatchCamera | undefined> {
+    const [camera] = await this.db
+      .select()
+      .from(matchCameras)
+      .where(eq(matchCameras.id, id));
+    return camera;
+  }
+
+  async getMatchCamerasByMedia(url: string): Promise<MatchCamera[]> {
+    return this.db
+      .select()
+      .from(matchCameras)
+      .where(
+        or(
+          eq(matchCameras.src, url),
+          eq(matchCameras.manifestSrc, url),
+          eq(matchCameras.proxySrc, url),
+        ),
+      );
+  }
+
+  async createMatchCamera(
+    matchId: string,
+    insertCamera: InsertMatchCamera,
+  ): Promise<MatchCamera> {
+    const [camera] = await this.db
+      .insert(matchCameras)
+      .values({ ...insertCamera, matchId })
+      .returning();
+    return camera;
+  }
+
+  async updateMatchCamera(
+    id: string,
+    update: UpdateMatchCamera,
+  ): Promise<MatchCamera | undefined> {
+    if (Object.keys(update).length === 0) return this.getMatchCamera(id);
+    const [camera] = await this.db
+      .update(matchCameras)
+      .set(update)
+      .where(eq(matchCameras.id, id))
+      .returning();
+    return camera;
+  }
+
+  async deleteMatchCamera(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(matchCameras)
+      .where(eq(matchCameras.id, id))
+      .returning({ id: matchCameras.id });
+    return deleted.length > 0;
+  }
+
+  async getLatestSyncJob(matchId: string): Promise<SyncJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(syncJobs)
+      .where(eq(syncJobs.matchId, matchId))
+      .orderBy(desc(syncJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async createSyncJob(matchId: string): Promise<SyncJob> {
+    const [job] = await this.db
+      .insert(syncJobs)
+      .values({ matchId })
+      .returning();
+    return job;
+  }
+
+  async updateSyncJob(
+    id: string,
+    update: Partial<Pick<SyncJob, "status" | "progress" | "results" | "error">>,
+  ): Promise<SyncJob | undefined> {
+    const [job] = await this.db
+      .update(syncJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(syncJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getTranscodeJob(id: string): Promise<TranscodeJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(transcodeJobs)
+      .where(eq(transcodeJobs.id, id));
+    return job;
+  }
+
+  async getLatestTranscodeJob(
+    cameraId: string,
+  ): Promise<TranscodeJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(transcodeJobs)
+      .where(eq(transcodeJobs.cameraId, cameraId))
+      .orderBy(desc(transcodeJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async createTranscodeJob(
+    matchId: string,
+    cameraId: string,
+  ): Promise<TranscodeJob> {
+    const [job] = await this.db
+      .insert(transcodeJobs)
+      .values({ matchId, cameraId })
+      .returning();
+    return job;
+  }
+
+  async updateTranscodeJob(
+    id: string,
+    update: Partial<Pick<TranscodeJob, "status" | "progress" | "error">>,
+  ): Promise<TranscodeJob | undefined> {
+    const [job] = await this.db
+      .update(transcodeJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(transcodeJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getLatestUpload(cameraId: string): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .select()
+      .from(uploads)
+      .where(eq(uploads.cameraId, cameraId))
+      .orderBy(desc(uploads.createdAt))
+      .limit(1);
+    return upload;
+  }
+
+  async createUpload(
+    matchId: string,
+    cameraId: string,
+    insertUpload: InsertUpload,
+  ): Promise<Upload> {
+    const [upload] = await this.db
+      .insert(uploads)
+      .values({ ...insertUpload, matchId, cameraId })
+      .returning();
+    return upload;
+  }
+
+  async updateUpload(
+    id: string,
+    update: Partial<Pick<Upload, "offset" | "status">>,
+  ): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async getShare(id: string): Promise<Share | undefined> {
+    const [share] = await this.db
+      .select()
+      .from(shares)
+      .where(eq(shares.id, id));
+    return share;
+  }
+
+  async getMatchShares(matchId: string): Promise<Share[]> {
+    return this.db
+      .select()
+      .from(shares)
+      .where(and(eq(shares.matchId, matchId), isNull(shares.revokedAt)))
+      .orderBy(desc(shares.createdAt));
+  }
+
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const [share] = await this.db
+      .insert(shares)
+      .values(insertShare)
+      .returning();
+    return share;
+  }
+
+  async revokeShare(id: string): Promise<Share | undefined> {
+    const [share] = await this.db
+      .update(shares)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(shares.id, id), isNull(shares.revokedAt)))
+      .returning();
+    return share ?? this.getShare(id);
+  }
+
+  async getRegion(id: string): Promise<Region | undefined> {
+    const [region] = await this.db
+      .select()
+      .from(regions)
+      .where(eq(regions.id, id));
+    return region;
+  }
+
+  async getMatchRegions(matchId: string): Promise<Region[]> {
+    return this.db
+      .select()
+      .from(regions)
+      .where(eq(regions.matchId, matchId))
+      .orderBy(asc(regions.startTime));
+  }
+
+  async createRegion(insertRegion: InsertRegion): Promise<Region> {
+    const [region] = await this.db
+      .insert(regions)
+      .values(insertRegion)
+      .returning();
+    return region;
+  }
+
+  async deleteRegion(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(regions)
+      .where(eq(regions.id, id))
+      .returning({ id: regions.id });
+    return deleted.length > 0;
+  }
+
+  async getPoint(id: string): Promise<Point | undefined> {
+    const [point] = await this.db
+      .select()
+      .from(points)
+      .where(eq(points.id, id));
+    return point;
+  }
+
+  async getMatchPoints(matchId: string): Promise<Point[]> {
+    return this.db
+      .select()
+      .from(points)
+      .where(eq(points.matchId, matchId))
+      .orderBy(asc(points.startTime));
+  }
+
+  async createPoint(insertPoint: InsertPoint): Promise<Point> {
+    const [point] = await this.db
+      .insert(points)
+      .values(insertPoint)
+      .returning();
+    return point;
+  }
+
+  async updatePoint(
+    id: string,
+    update: UpdatePoint,
+  ): Promise<Point | undefined> {
+    if (Object.keys(update).length === 0) return this.getPoint(id);
+    const [point] = await this.db
+      .update(points)
+      .set(update)
+      .where(eq(points.id, id))
+      .returning();
+    return point;
+  }
+
+  async deletePoint(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(points)
+      .where(eq(points.id, id))
+      .returning({ id: points.id });
+    return deleted.length > 0;
+  }
+
+  async getTrack(id: string): Promise<Track | undefined> {
+    const [track] = await this.db
+      .select()
+      .from(tracks)
+      .where(eq(tracks.id, id));
+    return track;
+  }
+
+  async getMatchTracks(matchId: string): Promise<TrackSummary[]> {
+    return this.db
+      .select(trackSummaryColumns)
+      .from(tracks)
+      .where(eq(tracks.matchId, matchId))
+      .orderBy(asc(tracks.createdAt));
+  }
+
+  async createTrack(insertTrack: InsertTrack): Promise<TrackSummary> {
+    const [track] = await this.db
+      .insert(tracks)
+      .values(insertTrack)
+      .returning(trackSummaryColumns);
+    return track;
+  }
+
+  async deleteTrack(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tracks)
+      .where(eq(tracks.id, id))
+      .returning({ id: tracks.id });
+    return deleted.length > 0;
+  }
+}
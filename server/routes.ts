@@ -1,6 +1,57 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { asyncHandler } from "./async-handler";
+import { setupAuth } from "./auth";
+import {
+  authorizeMatch,
+  cameraStreamAccess,
+  canStreamCamera,
+  requireMatchAccess,
+  requireUser,
+} from "./access";
+import { startAudioSync } from "./audio-sync";
+import { startTranscode } from "./transcode";
+import {
+  IMMUTABLE_CACHE_CONTROL,
+  MEDIA_URL_PREFIX,
+  PLACEHOLDER_CACHE_CONTROL,
+  cameraMediaDir,
+  fileWithin,
+  mediaRoot,
+  publicDir,
+  sendMediaFile,
+  sendWindowedMediaFile,
+} from "./media";
+import { UploadError, cancelUpload, openUpload, writeChunk } from "./uploads";
+import {
+  grantShare,
+  isShareActive,
+  resolveShareToken,
+  sharesCamera,
+  withToken,
+} from "./shares";
+import { canPerform } from "@shared/permissions";
+import {
+  createMatchSchema,
+  createPointSchema,
+  createRegionSchema,
+  createShareSchema,
+  importTrackSchema,
+  insertMatchCameraSchema,
+  insertMatchSchema,
+  insertUploadSchema,
+  matchSearchSchema,
+  updatePointSchema,
+  upsertMatchMemberSchema,
+  type Match,
+  type MatchPage,
+  type MatchRole,
+  type MatchSummary,
+  type MatchWithCameras,
+  type SharedMatch,
+} from "@shared/schema";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -12,5 +63,766 @@ export async function registerRoutes(
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  setupAuth(app);
+
+  // Uploaded and transcoded files live under the match and camera they
+  // belong to
+  app.get(
+    `${MEDIA_URL_PREFIX}/matches/:matchId/:cameraId/*`,
+    asyncHandler(async (req, res, next) => {
+      const match = await storage.getMatch(req.params.matchId);
+      const camera = await storage.getMatchCamera(req.params.cameraId);
+      if (!match || !camera || camera.matchId !== match.id) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const access = await cameraStreamAccess(req, match, camera);
+      if (access !== "all" && access.length === 0) {
+        return req.user
+          ? res.status(404).json({ message: "File not found" })
+          : res.status(401).json({ message: "Sign in to view this match" });
+      }
+
+      // Access was checked for this camera only, so the file must be one
+      // of its own
+      const sitePath = req.path.slice(MEDIA_URL_PREFIX.length);
+      const file = fileWithin(cameraMediaDir(match.id, camera.id), sitePath);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      if (access === "all") {
+        sendMediaFile(res, next, mediaRoot, sitePath, IMMUTABLE_CACHE_CONTROL);
+      } else {
+        await sendWindowedMediaFile(res, next, sitePath, file, access);
+      }
+    }),
+  );
+
+  app.get(`${MEDIA_URL_PREFIX}/*`, (_req, res) => {
+    res.status(404).json({ message: "File not found" });
+  });
+
+  // Placeholder footage is only served to someone who can stream a camera
+  // pointing at it
+  app.get(
+    "/videos/*",
+    asyncHandler(async (req, res, next) => {
+      const cameras = await storage.getMatchCamerasByMedia(req.path);
+      let allowed = false;
+      for (const camera of cameras) {
+        const match = await storage.getMatch(camera.matchId);
+        if (match && (await canStreamCamera(req, match, camera))) {
+          allowed = true;
+          break;
+        }
+      }
+      if (!allowed) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      sendMediaFile(
+        res,
+        next,
+        publicDir(),
+        req.path,
+        PLACEHOLDER_CACHE_CONTROL,
+      );
+    }),
+  );
+
+  // The library: a page of the matches the user can view (public ones and
+  // their own), searched and filtered
+  app.get(
+    "/api/matches",
+    asyncHandler(async (req, res) => {
+      const parsed = matchSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { matches, total } = await storage.searchMatches(
+        parsed.data,
+        req.user?.id,
+      );
+      const summaries = await Promise.all(
+        matches.map(async (match): Promise<MatchSummary> => {
+          const cameras = await storage.getMatchCameras(match.id);
+          return {
+            ...match,
+            posterSrc: cameras[0]?.posterSrc ?? null,
+            duration: cameras[0]?.duration ?? null,
+            cameraCount: cameras.length,
+          };
+        }),
+      );
+      const body: MatchPage = {
+        matches: summaries,
+        total,
+        page: parsed.data.page,
+        pageSize: parsed.data.pageSize,
+      };
+      res.json(body);
+    }),
+  );
+
+  app.post(
+    "/api/matches",
+    requireUser,
+    asyncHandler(async (req, res) => {
+      const parsed = createMatchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { cameras, ...insertMatch } = parsed.data;
+      const match = await storage.createMatch(insertMatch);
+      await storage.upsertMatchMember(match.id, req.user!.id, "owner");
+      const created = await Promise.all(
+        cameras.map((camera, position) =>
+          storage.createMatchCamera(match.id, {
+            ...camera,
+            position: camera.position ?? position,
+          }),
+        ),
+      );
+
+      const body: MatchWithCameras = {
+        ...match,
+        cameras: created,
+        role: "owner",
+      };
+      res.status(201).json(body);
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id",
+    requireMatchAccess("view"),
+    asyncHandler(async (_req, res) => {
+      const match: Match = res.locals.match;
+      const role: MatchRole = res.locals.role;
+      const cameras = await storage.getMatchCameras(match.id);
+      const body: MatchWithCameras = { ...match, cameras, role };
+      res.json(body);
+    }),
+  );
+
+  app.patch(
+    "/api/matches/:id",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = insertMatchSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const match = await storage.updateMatch(req.params.id, parsed.data);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      res.json(match);
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id",
+    requireMatchAccess("manage"),
+    asyncHandler(async (req, res) => {
+      const deleted = await storage.deleteMatch(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      res.status(204).end();
+    }),
+  );
+
+  app.patch(
+    "/api/matches/:id/cameras/:cameraId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = insertMatchCameraSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const existing = await storage.getMatchCamera(req.params.cameraId);
+      if (!existing || existing.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+
+      // Renditions of the old file no longer apply to a new source
+      const update =
+        parsed.data.src !== undefined && parsed.data.src !== existing.src
+          ? {
+              ...parsed.data,
+              manifestSrc: null,
+              proxySrc: null,
+              posterSrc: null,
+              duration: null,
+            }
+          : parsed.data;
+      const camera = await storage.updateMatchCamera(existing.id, update);
+      res.json(camera);
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/cameras/:cameraId/transcode",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const camera = await storage.getMatchCamera(req.params.cameraId);
+      if (!camera || camera.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+
+      const job = await storage.getLatestTranscodeJob(camera.id);
+      res.json(job ?? null);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/cameras/:cameraId/transcode",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const camera = await storage.getMatchCamera(req.params.cameraId);
+      if (!camera || camera.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+
+      const latest = await storage.getLatestTranscodeJob(camera.id);
+      if (
+        latest &&
+        (latest.status === "pending" || latest.status === "running")
+      ) {
+        return res
+          .status(409)
+          .json({ message: "This camera is already being transcoded" });
+      }
+
+      const job = await startTranscode(camera.matchId, camera.id);
+      res.status(202).json(job);
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/sync",
+    requireMatchAccess("view"),
+    asyncHandler(async (_req, res) => {
+      const match: Match = res.locals.match;
+
+      const job = await storage.getLatestSyncJob(match.id);
+      res.json(job ?? null);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/sync",
+    requireMatchAccess("edit"),
+    asyncHandler(async (_req, res) => {
+      const match: Match = res.locals.match;
+
+      const latest = await storage.getLatestSyncJob(match.id);
+      if (
+        latest &&
+        (latest.status === "pending" || latest.status === "running")
+      ) {
+        return res
+          .status(409)
+          .json({ message: "An audio sync is already running for this match" });
+      }
+
+      const cameras = await storage.getMatchCameras(match.id);
+      if (cameras.length < 2) {
+        return res
+          .status(400)
+          .json({ message: "At least two cameras are needed to sync" });
+      }
+
+      const job = await startAudioSync(match.id);
+      res.status(202).json(job);
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/cameras/:cameraId/upload",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const camera = await storage.getMatchCamera(req.params.cameraId);
+      if (!camera || camera.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+
+      const upload = await storage.getLatestUpload(camera.id);
+      res.json(upload ?? null);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/cameras/:cameraId/upload",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = insertUploadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const camera = await storage.getMatchCamera(req.params.cameraId);
+      if (!camera || camera.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+
+      // Re-selecting the same file resumes where the last attempt stopped
+      const latest = await storage.getLatestUpload(camera.id);
+      if (
+        latest?.status === "uploading" &&
+        latest.filename === parsed.data.filename &&
+        latest.size === parsed.data.size
+      ) {
+        return res.json(latest);
+      }
+      if (latest?.status === "uploading") await cancelUpload(latest);
+
+      const upload = await storage.createUpload(
+        camera.matchId,
+        camera.id,
+        parsed.data,
+      );
+      await openUpload(upload);
+      res.status(201).json(upload);
+    }),
+  );
+
+  app.patch(
+    "/api/matches/:id/cameras/:cameraId/upload/:uploadId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res, next) => {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (
+        !upload ||
+        upload.matchId !== req.params.id ||
+        upload.cameraId !== req.params.cameraId
+      ) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      try {
+        res.json(await writeChunk(upload, req));
+      } catch (err) {
+        if (!(err instanceof UploadError)) return next(err);
+        // The client resyncs its position from the returned offset
+        const current = await storage.getUpload(upload.id);
+        res
+          .status(err.status)
+          .json({ message: err.message, offset: current?.offset });
+      }
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id/cameras/:cameraId/upload/:uploadId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (
+        !upload ||
+        upload.matchId !== req.params.id ||
+        upload.cameraId !== req.params.cameraId
+      ) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      await cancelUpload(upload);
+      res.status(204).end();
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/members",
+    requireMatchAccess("manage"),
+    asyncHandler(async (req, res) => {
+      const members = await storage.getMatchMembers(req.params.id);
+      res.json(members);
+    }),
+  );
+
+  // Adds a member by username, or changes their role
+  app.put(
+    "/api/matches/:id/members",
+    requireMatchAccess("manage"),
+    asyncHandler(async (req, res) => {
+      const parsed = upsertMatchMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const user = await storage.getUserByUsername(parsed.data.username);
+      if (!user) {
+        return res.status(404).json({ message: "No user with that username" });
+      }
+      if (
+        parsed.data.role !== "owner" &&
+        (await isLastOwner(req.params.id, user.id))
+      ) {
+        return res
+          .status(409)
+          .json({ message: "A match needs at least one owner" });
+      }
+
+      await storage.upsertMatchMember(req.params.id, user.id, parsed.data.role);
+      res.json(await storage.getMatchMembers(req.params.id));
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id/members/:userId",
+    requireMatchAccess("manage"),
+    asyncHandler(async (req, res) => {
+      if (await isLastOwner(req.params.id, req.params.userId)) {
+        return res
+          .status(409)
+          .json({ message: "A match needs at least one owner" });
+      }
+
+      const deleted = await storage.deleteMatchMember(
+        req.params.id,
+        req.params.userId,
+      );
+      if (!deleted) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).end();
+    }),
+  );
+
+  // Named regions of the timeline, shared with everyone who can watch the
+  // match. Any signed-in viewer may save one; it can be deleted by whoever
+  // saved it or by anyone who can edit the match.
+  app.get(
+    "/api/matches/:id/regions",
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const regions = await storage.getMatchRegions(req.params.id);
+      res.json(regions);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/regions",
+    requireUser,
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const parsed = createRegionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const region = await storage.createRegion({
+        ...parsed.data,
+        matchId: req.params.id,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(region);
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id/regions/:regionId",
+    requireUser,
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const region = await storage.getRegion(req.params.regionId);
+      if (!region || region.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Region not found" });
+      }
+      const role: MatchRole = res.locals.role;
+      if (region.createdBy !== req.user!.id && !canPerform(role, "edit")) {
+        return res
+          .status(403)
+          .json({ message: "Only its creator or a coach can delete this" });
+      }
+
+      await storage.deleteRegion(region.id);
+      res.status(204).end();
+    }),
+  );
+
+  // Scoring data: every point of the match with where it sits on the
+  // timeline. Anyone who can watch the match may read it; coaches and
+  // owners record it.
+  app.get(
+    "/api/matches/:id/points",
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const points = await storage.getMatchPoints(req.params.id);
+      res.json(points);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/points",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = createPointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const point = await storage.createPoint({
+        ...parsed.data,
+        matchId: req.params.id,
+      });
+      res.status(201).json(point);
+    }),
+  );
+
+  app.patch(
+    "/api/matches/:id/points/:pointId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = updatePointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const existing = await storage.getPoint(req.params.pointId);
+      if (!existing || existing.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Point not found" });
+      }
+      const { startTime, endTime } = { ...existing, ...parsed.data };
+      if (endTime <= startTime) {
+        return res
+          .status(400)
+          .json({ message: "endTime must be after startTime" });
+      }
+
+      const point = await storage.updatePoint(existing.id, parsed.data);
+      res.json(point);
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id/points/:pointId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const point = await storage.getPoint(req.params.pointId);
+      if (!point || point.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Point not found" });
+      }
+
+      await storage.deletePoint(point.id);
+      res.status(204).end();
+    }),
+  );
+
+  // Tracking data: bounding boxes of the ball or a player through one
+  // camera's footage, produced by an external tracker and imported by
+  // coaches. Listing leaves out the samples; fetch a track for those.
+  app.get(
+    "/api/matches/:id/tracks",
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const tracks = await storage.getMatchTracks(req.params.id);
+      res.json(tracks);
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/tracks/:trackId",
+    requireMatchAccess("view"),
+    asyncHandler(async (req, res) => {
+      const track = await storage.getTrack(req.params.trackId);
+      if (!track || track.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+      res.json(track);
+    }),
+  );
+
+  app.post(
+    "/api/matches/:id/tracks",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const parsed = importTrackSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const camera = await storage.getMatchCamera(parsed.data.cameraId);
+      if (!camera || camera.matchId !== req.params.id) {
+        return res
+          .status(400)
+          .json({ message: "Camera must belong to the match" });
+      }
+
+      const track = await storage.createTrack({
+        ...parsed.data,
+        matchId: req.params.id,
+        samples: parsed.data.samples.sort((a, b) => a.t - b.t),
+      });
+      res.status(201).json(track);
+    }),
+  );
+
+  app.delete(
+    "/api/matches/:id/tracks/:trackId",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const track = await storage.getTrack(req.params.trackId);
+      if (!track || track.matchId !== req.params.id) {
+        return res.status(404).json({ message: "Track not found" });
+      }
+
+      await storage.deleteTrack(track.id);
+      res.status(204).end();
+    }),
+  );
+
+  app.get(
+    "/api/matches/:id/shares",
+    requireMatchAccess("edit"),
+    asyncHandler(async (req, res) => {
+      const shares = await storage.getMatchShares(req.params.id);
+      res.json(shares.filter(isShareActive).map(withToken));
+    }),
+  );
+
+  // Mints a link to a window of a match, optionally limited to some cameras
+  app.post(
+    "/api/shares",
+    requireUser,
+    asyncHandler(async (req, res) => {
+      const parsed = createShareSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { matchId, expiresInHours, ...window } = parsed.data;
+      if (!(await authorizeMatch(req, res, matchId, "edit"))) return;
+
+      const cameraIds =
+        window.cameraIds && Array.from(new Set(window.cameraIds));
+      const cameras = await storage.getMatchCameras(matchId);
+      if (cameraIds) {
+        const known = new Set(cameras.map((camera) => camera.id));
+        if (!cameraIds.every((id) => known.has(id))) {
+          return res
+            .status(400)
+            .json({ message: "Cameras must belong to the match" });
+        }
+      }
+      // The window is enforced by cutting the HLS renditions down to it
+      // (see server/hls-window.ts); a plain video file can't be cut
+      const windowed = window.startTime !== null || window.endTime !== null;
+      if (
+        windowed &&
+        cameras.some(
+          (camera) =>
+            (!cameraIds || cameraIds.includes(camera.id)) &&
+            !camera.manifestSrc,
+        )
+      ) {
+        return res.status(400).json({
+          message: "Only transcoded angles can be shared for part of a match",
+        });
+      }
+
+      const share = await storage.createShare({
+        matchId,
+        createdBy: req.user!.id,
+        startTime: window.startTime,
+        endTime: window.endTime,
+        cameraIds,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      });
+      res.status(201).json(withToken(share));
+    }),
+  );
+
+  app.delete(
+    "/api/shares/:id",
+    requireUser,
+    asyncHandler(async (req, res) => {
+      const share = await storage.getShare(req.params.id);
+      if (!share) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+      if (!(await authorizeMatch(req, res, share.matchId, "edit"))) return;
+
+      await storage.revokeShare(share.id);
+      res.status(204).end();
+    }),
+  );
+
+  // Opens a share link: the match with only the shared cameras, in the
+  // shared order. Also lets this session stream those cameras' files, so
+  // it is a POST rather than a GET.
+  app.post(
+    "/api/shares/:token/open",
+    asyncHandler(async (req, res) => {
+      const resolved = await resolveShareToken(req.params.token);
+      if ("error" in resolved) {
+        return resolved.error === "expired"
+          ? res.status(410).json({ message: "This link has expired" })
+          : res
+              .status(404)
+              .json({ message: "This link is invalid or has been revoked" });
+      }
+
+      const { share } = resolved;
+      const match = await storage.getMatch(share.matchId);
+      if (!match) {
+        return res
+          .status(404)
+          .json({ message: "This link is invalid or has been revoked" });
+      }
+      const order = share.cameraIds ?? [];
+      const cameras = (await storage.getMatchCameras(match.id))
+        .filter((camera) => sharesCamera(share, camera.id))
+        .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+
+      grantShare(req, share);
+      const body: SharedMatch = {
+        ...match,
+        cameras,
+        role: "viewer",
+        share: {
+          startTime: share.startTime,
+          endTime: share.endTime,
+          expiresAt: share.expiresAt,
+        },
+      };
+      res.json(body);
+    }),
+  );
+
   return httpServer;
 }
+
+async function isLastOwner(matchId: string, userId: string): Promise<boolean> {
+  const owners = (await storage.getMatchMembers(matchId)).filter(
+    (member) => member.role === "owner",
+  );
+  return owners.length === 1 && owners[0].userId === userId;
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import type { MatchCamera, Share, ShareWithToken } from "@shared/schema";
+import type { MediaWindow } from "./hls-window";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Shares opened in this session, most recent first
+    shareIds?: string[];
+  }
+}
+
+/* =============================================================================
+ * SHARE LINKS
+ * =============================================================================
+ * A share link lets someone without an account watch a window of a match
+ * from a chosen set of cameras. Its token is "<payload>.<signature>": the
+ * share's id, match, window, cameras and expiry as base64url JSON, signed
+ * with HMAC-SHA256. A token is only honoured while its share still exists,
+ * has not expired and has not been revoked, so revoking takes effect at once.
+ *
+ * Opening a link records the share in the visitor's session; that is what
+ * lets them stream the shared cameras' files (see server/access.ts), cut
+ * down to the share's window (see server/hls-window.ts).
+ * ============================================================================= */
+
+// SESSION_SECRET is required in production, so links are always signed
+// with a real secret there
+const SHARE_SECRET =
+  process.env.SHARE_SECRET || process.env.SESSION_SECRET || "dev-share-secret";
+// Oldest shares are forgotten beyond this many per session
+const MAX_SESSION_SHARES = 20;
+
+interface SharePayload {
+  id: string;
+  matchId: string;
+  startTime: number | null;
+  endTime: number | null;
+  cameraIds: string[] | null;
+  // Expiry in milliseconds since the epoch
+  exp: number;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", SHARE_SECRET).update(data).digest("base64url");
+}
+
+export function withToken(share: Share): ShareWithToken {
+  const payload: SharePayload = {
+    id: share.id,
+    matchId: share.matchId,
+    startTime: share.startTime,
+    endTime: share.endTime,
+    cameraIds: share.cameraIds,
+    exp: share.expiresAt.getTime(),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { ...share, token: `${data}.${sign(data)}` };
+}
+
+export function isShareActive(share: Share): boolean {
+  return !share.revokedAt && share.expiresAt.getTime() > Date.now();
+}
+
+export function sharesCamera(share: Share, cameraId: string): boolean {
+  return !share.cameraIds || share.cameraIds.includes(cameraId);
+}
+
+export type ResolvedShare = { share: Share } | { error: "invalid" | "expired" };
+
+// The live share a token stands for. Tampered, unknown and revoked tokens
+// are all "invalid"; only a genuine one past its expiry is "expired".
+export async function resolveShareToken(token: string): Promise<ResolvedShare> {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return { error: "invalid" };
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: "invalid" };
+  }
+
+  let payload: SharePayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    return { error: "invalid" };
+  }
+  if (payload.exp <= Date.now()) return { error: "expired" };
+
+  const share = await storage.getShare(payload.id);
+  if (!share || share.revokedAt || share.matchId !== payload.matchId) {
+    return { error: "invalid" };
+  }
+  if (!isShareActive(share)) return { error: "expired" };
+  return { share };
+}
+
+export function grantShare(req: Request, share: Share) {
+  const others = (req.session.shareIds ?? []).filter((id) => id !== share.id);
+  req.session.shareIds = [share.id, ...others].slice(0, MAX_SESSION_SHARES);
+}
+
+// Signs the user in like req.login, keeping the shares this session has
+// opened: Passport regenerates the session on sign-in, which would
+// otherwise drop them, and with them the shared cameras' files
+export function loginKeepingShares(
+  req: Request,
+  user: Express.User,
+  done: (err?: unknown) => void,
+) {
+  const shareIds = req.session.shareIds;
+  req.login(user, (err) => {
+    if (!err && shareIds) req.session.shareIds = shareIds;
+    done(err);
+  });
+}
+
+// The part of the camera's file a share covers, or null for all of it.
+// The window is on the master clock, so it moves with the camera's offset.
+export function shareMediaWindow(
+  share: Share,
+  camera: MatchCamera,
+): MediaWindow | null {
+  if (share.startTime === null && share.endTime === null) return null;
+  const toMediaTime = (masterTime: number) =>
+    camera.offset + masterTime * (1 + camera.driftRate);
+  return {
+    start: toMediaTime(share.startTime ?? 0),
+    end: share.endTime === null ? Infinity : toMediaTime(share.endTime),
+  };
+}
+
+// What the shares opened in this session let it stream of the camera: all
+// of its files, or only the windows of shares that cover part of the match
+// (none at all when the list is empty)
+export async function sharedCameraAccess(
+  req: Request,
+  camera: MatchCamera,
+): Promise<"all" | MediaWindow[]> {
+  const windows: MediaWindow[] = [];
+  for (const id of req.session?.shareIds ?? []) {
+    const share = await storage.getShare(id);
+    if (
+      share &&
+      share.matchId === camera.matchId &&
+      isShareActive(share) &&
+      sharesCamera(share, camera.id)
+    ) {
+      const window = shareMediaWindow(share, camera);
+      if (!window) return "all";
+      windows.push(window);
+    }
+  }
+  return windows;
+}
@@ -1,5 +1,35 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type UserPreferences,
+  type Match,
+  type InsertMatch,
+  type MatchSearch,
+  type MatchMember,
+  type MatchMemberWithUser,
+  type MatchRole,
+  type MatchCamera,
+  type InsertMatchCamera,
+  type UpdateMatchCamera,
+  type SyncJob,
+  type TranscodeJob,
+  type Upload,
+  type InsertUpload,
+  type Share,
+  type InsertShare,
+  type Region,
+  type InsertRegion,
+  type Point,
+  type InsertPoint,
+  type UpdatePoint,
+  type Track,
+  type InsertTrack,
+  type TrackSummary,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { createDb } from "./db";
+import { DEMO_CAMERAS, DEMO_MATCH } from "./demo-match";
+import { PgStorage } from "./pg-storage";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +38,178 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Merges the given preferences into the user's saved ones
+  updateUserPreferences(
+    id: string,
+    preferences: UserPreferences,
+  ): Promise<User | undefined>;
+
+  // The page of matches the user can view (public ones without a user)
+  // that pass the search, most recently played first
+  searchMatches(
+    search: MatchSearch,
+    userId?: string,
+  ): Promise<{ matches: Match[]; total: number }>;
+  getMatch(id: string): Promise<Match | undefined>;
+  createMatch(match: InsertMatch): Promise<Match>;
+  updateMatch(
+    id: string,
+    match: Partial<InsertMatch>,
+  ): Promise<Match | undefined>;
+  deleteMatch(id: string): Promise<boolean>;
+
+  getMatchMember(
+    matchId: string,
+    userId: string,
+  ): Promise<MatchMember | undefined>;
+  getMatchMembers(matchId: string): Promise<MatchMemberWithUser[]>;
+  upsertMatchMember(
+    matchId: string,
+    userId: string,
+    role: MatchRole,
+  ): Promise<MatchMember>;
+  deleteMatchMember(matchId: string, userId: string): Promise<boolean>;
+
+  getMatchCameras(matchId: string): Promise<MatchCamera[]>;
+  getMatchCamera(id: string): Promise<MatchCamera | undefined>;
+  // Cameras whose src, manifest or proxy is the given URL
+  getMatchCamerasByMedia(url: string): Promise<MatchCamera[]>;
+  createMatchCamera(
+    matchId: string,
+    camera: InsertMatchCamera,
+  ): Promise<MatchCamera>;
+  updateMatchCamera(
+    id: string,
+    camera: UpdateMatchCamera,
+  ): Promise<MatchCamera | undefined>;
+  deleteMatchCamera(id: string): Promise<boolean>;
+
+  getLatestSyncJob(matchId: string): Promise<SyncJob | undefined>;
+  createSyncJob(matchId: string): Promise<SyncJob>;
+  updateSyncJob(
+    id: string,
+    job: Partial<Pick<SyncJob, "status" | "progress" | "results" | "error">>,
+  ): Promise<SyncJob | undefined>;
+
+  getTranscodeJob(id: string): Promise<TranscodeJob | undefined>;
+  getLatestTranscodeJob(cameraId: string): Promise<TranscodeJob | undefined>;
+  createTranscodeJob(matchId: string, cameraId: string): Promise<TranscodeJob>;
+  updateTranscodeJob(
+    id: string,
+    job: Partial<Pick<TranscodeJob, "status" | "progress" | "error">>,
+  ): Promise<TranscodeJob | undefined>;
+
+  getUpload(id: string): Promise<Upload | undefined>;
+  getLatestUpload(cameraId: string): Promise<Upload | undefined>;
+  createUpload(
+    matchId: string,
+    cameraId: string,
+    upload: InsertUpload,
+  ): Promise<Upload>;
+  updateUpload(
+    id: string,
+    upload: Partial<Pick<Upload, "offset" | "status">>,
+  ): Promise<Upload | undefined>;
+
+  getShare(id: string): Promise<Share | undefined>;
+  // Shares that have not been revoked, newest first
+  getMatchShares(matchId: string): Promise<Share[]>;
+  createShare(share: InsertShare): Promise<Share>;
+  revokeShare(id: string): Promise<Share | undefined>;
+
+  getRegion(id: string): Promise<Region | undefined>;
+  // Ordered by where they start on the timeline
+  getMatchRegions(matchId: string): Promise<Region[]>;
+  createRegion(region: InsertRegion): Promise<Region>;
+  deleteRegion(id: string): Promise<boolean>;
+
+  getPoint(id: string): Promise<Point | undefined>;
+  // Ordered by where they start on the timeline
+  getMatchPoints(matchId: string): Promise<Point[]>;
+  createPoint(point: InsertPoint): Promise<Point>;
+  updatePoint(id: string, point: UpdatePoint): Promise<Point | undefined>;
+  deletePoint(id: string): Promise<boolean>;
+
+  getTrack(id: string): Promise<Track | undefined>;
+  // Without their samples, oldest first
+  getMatchTracks(matchId: string): Promise<TrackSummary[]>;
+  createTrack(track: InsertTrack): Promise<TrackSummary>;
+  deleteTrack(id: string): Promise<boolean>;
+}
+
+function summarizeTrack({ samples, ...track }: Track): TrackSummary {
+  return {
+    ...track,
+    sampleCount: samples.length,
+    startTime: samples[0]?.t ?? 0,
+    endTime: samples[samples.length - 1]?.t ?? 0,
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private matches: Map<string, Match>;
+  private matchCameras: Map<string, MatchCamera>;
+  // Keyed by `${matchId}:${userId}`
+  private matchMembers: Map<string, MatchMember>;
+  private syncJobs: Map<string, SyncJob>;
+  private transcodeJobs: Map<string, TranscodeJob>;
+  private uploads: Map<string, Upload>;
+  private shares: Map<string, Share>;
+  private regions: Map<string, Region>;
+  private points: Map<string, Point>;
+  private tracks: Map<string, Track>;
 
   constructor() {
     this.users = new Map();
+    this.matches = new Map();
+    this.matchCameras = new Map();
+    this.matchMembers = new Map();
+    this.syncJobs = new Map();
+    this.transcodeJobs = new Map();
+    this.uploads = new Map();
+    this.shares = new Map();
+    this.regions = new Map();
+    this.points = new Map();
+    this.tracks = new Map();
+    this.seedDemoMatch();
+  }
+
+  private seedDemoMatch() {
+    const id = randomUUID();
+    this.matches.set(id, {
+      id,
+      title: DEMO_MATCH.title,
+      description: DEMO_MATCH.description ?? null,
+      isPublic: DEMO_MATCH.isPublic ?? false,
+      venue: DEMO_MATCH.venue ?? null,
+      tournament: DEMO_MATCH.tournament ?? null,
+      surface: DEMO_MATCH.surface ?? null,
+      players: DEMO_MATCH.players ?? [],
+      playedAt: DEMO_MATCH.playedAt ?? null,
+      noAdScoring: DEMO_MATCH.noAdScoring ?? false,
+      createdAt: new Date(),
+    });
+
+    DEMO_CAMERAS.forEach((camera, position) => {
+      const cameraId = randomUUID();
+      this.matchCameras.set(cameraId, {
+        id: cameraId,
+        matchId: id,
+        position,
+        label: camera.label,
+        description: camera.description ?? null,
+        src: camera.src,
+        offset: 0,
+        driftRate: 0,
+        syncConfidence: null,
+        manifestSrc: null,
+        proxySrc: null,
+        posterSrc: null,
+        duration: null,
+        fps: camera.fps ?? null,
+      });
+    });
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -29,10 +224,494 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, preferences: {} };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUserPreferences(
+    id: string,
+    preferences: UserPreferences,
+  ): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    const user: User = {
+      ...existing,
+      preferences: { ...existing.preferences, ...preferences },
+    };
     this.users.set(id, user);
     return user;
   }
+
+  async searchMatches(
+    search: MatchSearch,
+    userId?: string,
+  ): Promise<{ matches: Match[]; total: number }> {
+    // Whole-word matching, close to what Postgres full-text search does
+    const toWords = (text: string) =>
+      text
+        .toLowerCase()
+        .split(/[\s.,;:!?()"'/-]+/)
+        .filter(Boolean);
+    const words = search.q ? toWords(search.q) : [];
+    const player = search.player?.toLowerCase();
+
+    const found = Array.from(this.matches.values())
+      .filter((match) => {
+        if (
+          !match.isPublic &&
+          !(userId && this.matchMembers.has(`${match.id}:${userId}`))
+        ) {
+          return false;
+        }
+        if (words.length > 0) {
+          const text = toWords(
+            [
+              match.title,
+              match.description,
+              match.venue,
+              match.tournament,
+              ...match.players,
+            ].join(" "),
+          );
+          if (!words.every((word) => text.includes(word))) return false;
+        }
+        if (
+          player &&
+          !match.players.some((name) => name.toLowerCase().includes(player))
+        ) {
+          return false;
+        }
+        if (search.surface && match.surface !== search.surface) return false;
+        if (search.from && !(match.playedAt && match.playedAt >= search.from)) {
+          return false;
+        }
+        if (search.to && !(match.playedAt && match.playedAt < search.to)) {
+          return false;
+        }
+        return true;
+      })
+      .sort(
+        (a, b) =>
+          (b.playedAt ?? b.createdAt).getTime() -
+          (a.playedAt ?? a.createdAt).getTime(),
+      );
+
+    const start = (search.page - 1) * search.pageSize;
+    return {
+      matches: found.slice(start, start + search.pageSize),
+      total: found.length,
+    };
+  }
+
+  async getMatch(id: string): Promise<Match | undefined> {
+    return this.matches.get(id);
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    const id = randomUUID();
+    const match: Match = {
+      id,
+      title: insertMatch.title,
+      description: insertMatch.description ?? null,
+      isPublic: insertMatch.isPublic ?? false,
+      venue: insertMatch.venue ?? null,
+      tournament: insertMatch.tournament ?? null,
+      surface: insertMatch.surface ?? null,
+      players: insertMatch.players ?? [],
+      playedAt: insertMatch.playedAt ?? null,
+      noAdScoring: insertMatch.noAdScoring ?? false,
+      createdAt: new Date(),
+    };
+    this.matches.set(id, match);
+    return match;
+  }
+
+  async updateMatch(
+    id: string,
+    update: Partial<InsertMatch>,
+  ): Promise<Match | undefined> {
+    const existing = this.matches.get(id);
+    if (!existing) return undefined;
+    const match: Match = { ...existing, ...update };
+    this.matches.set(id, match);
+    return match;
+  }
+
+  async deleteMatch(id: string): Promise<boolean> {
+    if (!this.matches.delete(id)) return false;
+    this.matchCameras.forEach((camera, cameraId) => {
+      if (camera.matchId === id) this.matchCameras.delete(cameraId);
+    });
+    this.syncJobs.forEach((job, jobId) => {
+      if (job.matchId === id) this.syncJobs.delete(jobId);
+    });
+    this.transcodeJobs.forEach((job, jobId) => {
+      if (job.matchId === id) this.transcodeJobs.delete(jobId);
+    });
+    this.uploads.forEach((upload, uploadId) => {
+      if (upload.matchId === id) this.uploads.delete(uploadId);
+    });
+    this.matchMembers.forEach((member, key) => {
+      if (member.matchId === id) this.matchMembers.delete(key);
+    });
+    this.shares.forEach((share, shareId) => {
+      if (share.matchId === id) this.shares.delete(shareId);
+    });
+    this.regions.forEach((region, regionId) => {
+      if (region.matchId === id) this.regions.delete(regionId);
+    });
+    this.points.forEach((point, pointId) => {
+      if (point.matchId === id) this.points.delete(pointId);
+    });
+    this.tracks.forEach((track, trackId) => {
+      if (track.matchId === id) this.tracks.delete(trackId);
+    });
+    return true;
+  }
+
+  async getMatchMember(
+    matchId: string,
+    userId: string,
+  ): Promise<MatchMember | undefined> {
+    return this.matchMembers.get(`${matchId}:${userId}`);
+  }
+
+  async getMatchMembers(matchId: string): Promise<MatchMemberWithUser[]> {
+    return Array.from(this.matchMembers.values())
+      .filter((member) => member.matchId === matchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((member) => ({
+        ...member,
+        username: this.users.get(member.userId)?.username ?? "",
+      }));
+  }
+
+  async upsertMatchMember(
+    matchId: string,
+    userId: string,
+    role: MatchRole,
+  ): Promise<MatchMember> {
+    const key = `${matchId}:${userId}`;
+    const member: MatchMember = {
+      matchId,
+      userId,
+      role,
+      createdAt: this.matchMembers.get(key)?.createdAt ?? new Date(),
+    };
+    this.matchMembers.set(key, member);
+    return member;
+  }
+
+  async deleteMatchMember(matchId: string, userId: string): Promise<boolean> {
+    return this.matchMembers.delete(`${matchId}:${userId}`);
+  }
+
+  async getMatchCameras(matchId: string): Promise<MatchCamera[]> {
+    return Array.from(this.matchCameras.values())
+      .filter((camera) => camera.matchId === matchId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getMatchCamera(id: string): Promise<MatchCamera | undefined> {
+    return this.matchCameras.get(id);
+  }
+
+  async getMatchCamerasByMedia(url: string): Promise<MatchCamera[]> {
+    return Array.from(this.matchCameras.values()).filter(
+      (camera) =>
+        camera.src === url ||
+        camera.manifestSrc === url ||
+        camera.proxySrc === url,
+    );
+  }
+
+  async createMatchCamera(
+    matchId: string,
+    insertCamera: InsertMatchCamera,
+  ): Promise<MatchCamera> {
+    const id = randomUUID();
+    const camera: MatchCamera = {
+      id,
+      matchId,
+      position: insertCamera.position ?? 0,
+      label: insertCamera.label,
+      description: insertCamera.description ?? null,
+      src: insertCamera.src,
+      offset: insertCamera.offset ?? 0,
+      driftRate: insertCamera.driftRate ?? 0,
+      syncConfidence: null,
+      manifestSrc: null,
+      proxySrc: null,
+      posterSrc: null,
+      duration: null,
+      fps: insertCamera.fps ?? null,
+    };
+    this.matchCameras.set(id, camera);
+    return camera;
+  }
+
+  async updateMatchCamera(
+    id: string,
+    update: UpdateMatchCamera,
+  ): Promise<MatchCamera | undefined> {
+    const existing = this.matchCameras.get(id);
+    if (!existing) return undefined;
+    const camera: MatchCamera = { ...existing, ...update };
+    this.matchCameras.set(id, camera);
+    return camera;
+  }
+
+  async deleteMatchCamera(id: string): Promise<boolean> {
+    if (!this.matchCameras.delete(id)) return false;
+    this.transcodeJobs.forEach((job, jobId) => {
+      if (job.cameraId === id) this.transcodeJobs.delete(jobId);
+    });
+    this.uploads.forEach((upload, uploadId) => {
+      if (upload.cameraId === id) this.uploads.delete(uploadId);
+    });
+    this.tracks.forEach((track, trackId) => {
+      if (track.cameraId === id) this.tracks.delete(trackId);
+    });
+    return true;
+  }
+
+  async getLatestSyncJob(matchId: string): Promise<SyncJob | undefined> {
+    return Array.from(this.syncJobs.values())
+      .filter((job) => job.matchId === matchId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async createSyncJob(matchId: string): Promise<SyncJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: SyncJob = {
+      id,
+      matchId,
+      status: "pending",
+      progress: 0,
+      results: [],
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.syncJobs.set(id, job);
+    return job;
+  }
+
+  async updateSyncJob(
+    id: string,
+    update: Partial<Pick<SyncJob, "status" | "progress" | "results" | "error">>,
+  ): Promise<SyncJob | undefined> {
+    const existing = this.syncJobs.get(id);
+    if (!existing) return undefined;
+    const job: SyncJob = { ...existing, ...update, updatedAt: new Date() };
+    this.syncJobs.set(id, job);
+    return job;
+  }
+
+  async getTranscodeJob(id: string): Promise<TranscodeJob | undefined> {
+    return this.transcodeJobs.get(id);
+  }
+
+  async getLatestTranscodeJob(
+    cameraId: string,
+  ): Promise<TranscodeJob | undefined> {
+    return Array.from(this.transcodeJobs.values())
+      .filter((job) => job.cameraId === cameraId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async createTranscodeJob(
+    matchId: string,
+    cameraId: string,
+  ): Promise<TranscodeJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: TranscodeJob = {
+      id,
+      matchId,
+      cameraId,
+      status: "pending",
+      progress: 0,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.transcodeJobs.set(id, job);
+    return job;
+  }
+
+  async updateTranscodeJob(
+    id: string,
+    update: Partial<Pick<TranscodeJob, "status" | "progress" | "error">>,
+  ): Promise<TranscodeJob | undefined> {
+    const existing = this.transcodeJobs.get(id);
+    if (!existing) return undefined;
+    const job: TranscodeJob = { ...existing, ...update, updatedAt: new Date() };
+    this.transcodeJobs.set(id, job);
+    return job;
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async getLatestUpload(cameraId: string): Promise<Upload | undefined> {
+    return Array.from(this.uploads.values())
+      .filter((upload) => upload.cameraId === cameraId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  async createUpload(
+    matchId: string,
+    cameraId: string,
+    insertUpload: InsertUpload,
+  ): Promise<Upload> {
+    const id = randomUUID();
+    const now = new Date();
+    const upload: Upload = {
+      id,
+      matchId,
+      cameraId,
+      filename: insertUpload.filename,
+      size: insertUpload.size,
+      offset: 0,
+      status: "uploading",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  async updateUpload(
+    id: string,
+    update: Partial<Pick<Upload, "offset" | "status">>,
+  ): Promise<Upload | undefined> {
+    const existing = this.uploads.get(id);
+    if (!existing) return undefined;
+    const upload: Upload = { ...existing, ...update, updatedAt: new Date() };
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  async getShare(id: string): Promise<Share | undefined> {
+    return this.shares.get(id);
+  }
+
+  async getMatchShares(matchId: string): Promise<Share[]> {
+    return Array.from(this.shares.values())
+      .filter((share) => share.matchId === matchId && !share.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const id = randomUUID();
+    const share: Share = {
+      ...insertShare,
+      id,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.shares.set(id, share);
+    return share;
+  }
+
+  async revokeShare(id: string): Promise<Share | undefined> {
+    const existing = this.shares.get(id);
+    if (!existing) return undefined;
+    const share: Share = {
+      ...existing,
+      revokedAt: existing.revokedAt ?? new Date(),
+    };
+    this.shares.set(id, share);
+    return share;
+  }
+
+  async getRegion(id: string): Promise<Region | undefined> {
+    return this.regions.get(id);
+  }
+
+  async getMatchRegions(matchId: string): Promise<Region[]> {
+    return Array.from(this.regions.values())
+      .filter((region) => region.matchId === matchId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  async createRegion(insertRegion: InsertRegion): Promise<Region> {
+    const id = randomUUID();
+    const region: Region = { ...insertRegion, id, createdAt: new Date() };
+    this.regions.set(id, region);
+    return region;
+  }
+
+  async deleteRegion(id: string): Promise<boolean> {
+    return this.regions.delete(id);
+  }
+
+  async getPoint(id: string): Promise<Point | undefined> {
+    return this.points.get(id);
+  }
+
+  async getMatchPoints(matchId: string): Promise<Point[]> {
+    return Array.from(this.points.values())
+      .filter((point) => point.matchId === matchId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  async createPoint(insertPoint: InsertPoint): Promise<Point> {
+    const id = randomUUID();
+    const point: Point = { ...insertPoint, id, createdAt: new Date() };
+    this.points.set(id, point);
+    return point;
+  }
+
+  async updatePoint(
+    id: string,
+    update: UpdatePoint,
+  ): Promise<Point | undefined> {
+    const existing = this.points.get(id);
+    if (!existing) return undefined;
+    const point: Point = { ...existing, ...update };
+    this.points.set(id, point);
+    return point;
+  }
+
+  async deletePoint(id: string): Promise<boolean> {
+    return this.points.delete(id);
+  }
+
+  async getTrack(id: string): Promise<Track | undefined> {
+    return this.tracks.get(id);
+  }
+
+  async getMatchTracks(matchId: string): Promise<TrackSummary[]> {
+    return Array.from(this.tracks.values())
+      .filter((track) => track.matchId === matchId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(summarizeTrack);
+  }
+
+  async createTrack(insertTrack: InsertTrack): Promise<TrackSummary> {
+    const id = randomUUID();
+    const track: Track = { ...insertTrack, id, createdAt: new Date() };
+    this.tracks.set(id, track);
+    return summarizeTrack(track);
+  }
+
+  async deleteTrack(id: string): Promise<boolean> {
+    return this.tracks.delete(id);
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is set, otherwise everything lives in memory
+// and is lost on restart
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PgStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
+
+// Run once at startup, before any request is handled
+export async function prepareStorage() {
+  if (storage instanceof PgStorage) await storage.prepare();
+}
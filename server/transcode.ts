@@ -0,0 +1,321 @@
+import { mkdir, rename, rm } from "fs/promises";
+import path from "path";
+import { type TranscodeJob } from "@shared/schema";
+import { probe, runFfmpeg } from "./ffmpeg";
+import {
+  cameraMediaDir,
+  mediaUrl,
+  removeOtherVersions,
+  resolveMediaInput,
+} from "./media";
+import { storage } from "./storage";
+
+/* =============================================================================
+ * TRANSCODING
+ * =============================================================================
+ * Turns a camera's source file into what adaptive playback needs:
+ *   - an HLS bitrate ladder (hls/master.m3u8 plus one playlist and set of
+ *     4s segments per rendition), skipping rungs above the source height
+ *   - a 360p MP4 proxy, used for previews and by audio auto-sync
+ *   - a poster frame for the match library
+ * The source's length and recorded frame rate are stored on the camera too.
+ *
+ * Keyframes are forced on segment boundaries so every rendition switches
+ * cleanly. The lowest rung matches the viewer's thumbnail cap, so thumbnail
+ * angles settle on it.
+ *
+ * Each job writes to its own directory under the camera's transcoded/
+ * folder and the previous output is only removed once the new one is
+ * published, so the camera always points at a complete set of files. Jobs
+ * run one at a time: each ffmpeg run already uses every core.
+ * ============================================================================= */
+const SEGMENT_SECONDS = 4;
+const LADDER = [
+  { name: "1080p", height: 1080, videoKbps: 5000 },
+  { name: "720p", height: 720, videoKbps: 2800 },
+  { name: "480p", height: 480, videoKbps: 1400 },
+  { name: "360p", height: 360, videoKbps: 800 },
+];
+const AUDIO_KBPS = 128;
+const PROXY_HEIGHT = 360;
+// The poster is taken a tenth of the way in, past any warm-up at the start
+const POSTER_POSITION = 0.1;
+const POSTER_HEIGHT = 360;
+// Share of the job's progress spent on the ladder; the proxy takes the rest
+const LADDER_WEIGHT = 0.85;
+
+export interface TranscodeOutput {
+  manifestPath: string;
+  proxyPath: string;
+  posterPath: string;
+  // Length of the source in seconds
+  duration: number;
+  // Recorded frame rate of the source, when ffprobe could tell
+  fps: number | null;
+}
+
+// Calls onProgress with 0..1 as ffmpeg reports its position in the file
+function progressParser(duration: number, onProgress: (p: number) => void) {
+  let pending = "";
+  return (chunk: Buffer) => {
+    const lines = (pending + chunk.toString()).split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      const match = /^out_time_us=(\d+)/.exec(line);
+      if (match && duration > 0) {
+        onProgress(Math.min(1, Number(match[1]) / 1e6 / duration));
+      }
+    }
+  };
+}
+
+function ladderArgs(
+  input: string,
+  hlsDir: string,
+  sourceHeight: number,
+  hasAudio: boolean,
+): string[] {
+  const rungs = LADDER.filter((rung) => rung.height <= sourceHeight);
+  if (rungs.length === 0) rungs.push(LADDER[LADDER.length - 1]);
+
+  const split = rungs.map((_rung, i) => `[v${i}]`).join("");
+  const scales = rungs.map(
+    (rung, i) => `[v${i}]scale=-2:${rung.height}[v${i}out]`,
+  );
+  const args = [
+    "-y",
+    "-i",
+    input,
+    "-filter_complex",
+    [`[0:v]split=${rungs.length}${split}`, ...scales].join(";"),
+  ];
+
+  rungs.forEach((rung, i) => {
+    args.push(
+      "-map",
+      `[v${i}out]`,
+      `-b:v:${i}`,
+      `${rung.videoKbps}k`,
+      `-maxrate:v:${i}`,
+      `${Math.round(rung.videoKbps * 1.07)}k`,
+      `-bufsize:v:${i}`,
+      `${rung.videoKbps * 2}k`,
+    );
+    if (hasAudio) args.push("-map", "0:a:0");
+  });
+
+  const streamMap = rungs
+    .map((rung, i) =>
+      hasAudio ? `v:${i},a:${i},name:${rung.name}` : `v:${i},name:${rung.name}`,
+    )
+    .join(" ");
+
+  args.push(
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-pix_fmt",
+    "yuv420p",
+    "-force_key_frames",
+    `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    "-c:a",
+    "aac",
+    "-b:a",
+    `${AUDIO_KBPS}k`,
+    "-ac",
+    "2",
+    "-f",
+    "hls",
+    "-hls_time",
+    String(SEGMENT_SECONDS),
+    "-hls_playlist_type",
+    "vod",
+    "-hls_flags",
+    "independent_segments",
+    "-hls_segment_filename",
+    path.join(hlsDir, "%v_%03d.ts"),
+    "-master_pl_name",
+    "master.m3u8",
+    "-var_stream_map",
+    streamMap,
+    "-progress",
+    "pipe:1",
+    "-nostats",
+    path.join(hlsDir, "%v.m3u8"),
+  );
+  return args;
+}
+
+function proxyArgs(input: string, proxyPath: string): string[] {
+  return [
+    "-y",
+    "-i",
+    input,
+    "-map",
+    "0:v:0",
+    "-map",
+    "0:a:0?",
+    "-vf",
+    `scale=-2:${PROXY_HEIGHT}`,
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "28",
+    "-pix_fmt",
+    "yuv420p",
+    "-c:a",
+    "aac",
+    "-b:a",
+    "64k",
+    "-ac",
+    "1",
+    "-movflags",
+    "+faststart",
+    "-progress",
+    "pipe:1",
+    "-nostats",
+    proxyPath,
+  ];
+}
+
+function posterArgs(
+  input: string,
+  posterPath: string,
+  duration: number,
+): string[] {
+  return [
+    "-y",
+    "-ss",
+    (duration * POSTER_POSITION).toFixed(3),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-vf",
+    `scale=-2:${POSTER_HEIGHT}`,
+    "-q:v",
+    "3",
+    posterPath,
+  ];
+}
+
+// Transcodes one file into outDir, replacing anything already there. Has no
+// storage side effects, so it can be run on its own (see script/transcode.ts).
+export async function transcodeFile(
+  input: string,
+  outDir: string,
+  onProgress: (progress: number) => void = () => {},
+): Promise<TranscodeOutput> {
+  const source = await probe(input);
+
+  const scratchDir = `${outDir}.partial`;
+  const hlsDir = path.join(scratchDir, "hls");
+  await rm(scratchDir, { recursive: true, force: true });
+  await mkdir(hlsDir, { recursive: true });
+
+  try {
+    await runFfmpeg(
+      ladderArgs(input, hlsDir, source.height, source.hasAudio),
+      progressParser(source.duration, (p) => onProgress(p * LADDER_WEIGHT)),
+    );
+    await runFfmpeg(
+      proxyArgs(input, path.join(scratchDir, "proxy.mp4")),
+      progressParser(source.duration, (p) =>
+        onProgress(LADDER_WEIGHT + p * (1 - LADDER_WEIGHT)),
+      ),
+    );
+    await runFfmpeg(
+      posterArgs(input, path.join(scratchDir, "poster.jpg"), source.duration),
+    );
+
+    await rm(outDir, { recursive: true, force: true });
+    await rename(scratchDir, outDir);
+  } catch (err) {
+    await rm(scratchDir, { recursive: true, force: true });
+    throw err;
+  }
+
+  onProgress(1);
+  return {
+    manifestPath: path.join(outDir, "hls", "master.m3u8"),
+    proxyPath: path.join(outDir, "proxy.mp4"),
+    posterPath: path.join(outDir, "poster.jpg"),
+    duration: source.duration,
+    fps: source.fps,
+  };
+}
+
+async function runTranscode(job: TranscodeJob) {
+  const camera = await storage.getMatchCamera(job.cameraId);
+  if (!camera) throw new Error("Camera was deleted before transcoding");
+  await storage.updateTranscodeJob(job.id, { status: "running" });
+
+  // ffmpeg reports progress many times a second; storing every update
+  // would only churn the job record
+  let stored = 0;
+  const versionsDir = path.join(
+    cameraMediaDir(camera.matchId, camera.id),
+    "transcoded",
+  );
+  const output = await transcodeFile(
+    resolveMediaInput(camera.src),
+    path.join(versionsDir, job.id),
+    (progress) => {
+      if (progress - stored < 0.01) return;
+      stored = progress;
+      storage.updateTranscodeJob(job.id, { progress }).catch((err: Error) => {
+        console.error(
+          `[transcode] job ${job.id} progress not stored: ${err.message}`,
+        );
+      });
+    },
+  );
+
+  // Do not publish renditions of a file the camera no longer points at
+  const current = await storage.getMatchCamera(camera.id);
+  if (current?.src !== camera.src) {
+    throw new Error("Camera source changed while transcoding");
+  }
+  await storage.updateMatchCamera(camera.id, {
+    manifestSrc: mediaUrl(output.manifestPath),
+    proxySrc: mediaUrl(output.proxyPath),
+    posterSrc: mediaUrl(output.posterPath),
+    duration: output.duration,
+    fps: output.fps ?? current.fps,
+  });
+  await storage.updateTranscodeJob(job.id, { status: "completed", progress: 1 });
+  await removeOtherVersions(versionsDir, job.id);
+}
+
+let queue: Promise<void> = Promise.resolve();
+
+// Queues a transcode of the camera's current src. The returned job is the
+// pending record; poll storage for progress.
+export async function startTranscode(
+  matchId: string,
+  cameraId: string,
+): Promise<TranscodeJob> {
+  const job = await storage.createTranscodeJob(matchId, cameraId);
+  // Every link settles as resolved, even when the job cannot be marked
+  // failed, so one bad job never stops the ones queued behind it
+  queue = queue
+    .then(() => runTranscode(job))
+    .catch((err: Error) =>
+      storage.updateTranscodeJob(job.id, {
+        status: "failed",
+        error: err.message,
+      }),
+    )
+    .then(
+      () => {},
+      (err: Error) => {
+        console.error(
+          `[transcode] job ${job.id} could not be marked failed: ${err.message}`,
+        );
+      },
+    );
+  return job;
+}
@@ -0,0 +1,167 @@
+import { createHash } from "crypto";
+import { mkdir, open, rename, rm } from "fs/promises";
+import path from "path";
+import type { Request } from "express";
+import { type Upload } from "@shared/schema";
+import {
+  cameraMediaDir,
+  mediaRoot,
+  mediaUrl,
+  removeOtherVersions,
+} from "./media";
+import { storage } from "./storage";
+import { startTranscode } from "./transcode";
+
+/* =============================================================================
+ * RESUMABLE UPLOADS
+ * =============================================================================
+ * Camera files can run to many gigabytes and are often sent over court-side
+ * Wi-Fi, so they are uploaded in chunks:
+ *   1. POST .../upload with { filename, size } opens an upload, or returns
+ *      the unfinished one for the same file so the client can resume
+ *   2. PATCH .../upload/:uploadId sends one chunk as the raw request body,
+ *      with Upload-Offset (where it starts) and Upload-Checksum
+ *      ("sha256 <base64 digest>" of the chunk) headers
+ *   3. The chunk that reaches `size` completes the upload: the file becomes
+ *      the camera's src and is queued for transcoding
+ *
+ * A chunk is only written once its checksum matches, at the offset it
+ * declares, so resending a chunk after a dropped connection is harmless.
+ * ============================================================================= */
+export const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+export class UploadError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Unfinished files are kept out of the camera's directory, which the media
+// route serves, but under mediaRoot so completing one is still a rename
+function partPath(upload: Upload): string {
+  return path.join(mediaRoot, "uploads", `${upload.id}.part`);
+}
+
+// Keeps the extension, drops anything that could escape the directory
+function safeFilename(filename: string): string {
+  const base = path.basename(filename).replace(/[^\w.-]+/g, "_");
+  return base.replace(/^\.+/, "") || "source";
+}
+
+// Chunks for one upload are written one at a time
+const inFlight = new Set<string>();
+
+export async function openUpload(upload: Upload): Promise<void> {
+  const file = partPath(upload);
+  await mkdir(path.dirname(file), { recursive: true });
+  await (await open(file, "w")).close();
+}
+
+async function readChunk(req: Request): Promise<Buffer> {
+  const declared = Number(req.headers["content-length"]);
+  if (!Number.isFinite(declared)) {
+    throw new UploadError(411, "Content-Length is required");
+  }
+  if (declared > MAX_CHUNK_BYTES) {
+    throw new UploadError(413, `Chunks may be at most ${MAX_CHUNK_BYTES} bytes`);
+  }
+
+  const parts: Buffer[] = [];
+  let received = 0;
+  for await (const part of req as AsyncIterable<Buffer>) {
+    received += part.length;
+    if (received > declared) {
+      throw new UploadError(400, "Body is longer than Content-Length");
+    }
+    parts.push(part);
+  }
+  return Buffer.concat(parts);
+}
+
+function verifyChecksum(chunk: Buffer, header: string | undefined) {
+  const [algorithm, digest] = (header ?? "").split(" ");
+  if (algorithm !== "sha256" || !digest) {
+    throw new UploadError(400, 'Upload-Checksum must be "sha256 <base64>"');
+  }
+  const actual = createHash("sha256").update(chunk).digest("base64");
+  if (actual !== digest) {
+    throw new UploadError(422, "Chunk checksum does not match");
+  }
+}
+
+// Writes one chunk and returns the updated upload. Throws UploadError with
+// the HTTP status to answer with.
+export async function writeChunk(upload: Upload, req: Request): Promise<Upload> {
+  if (upload.status !== "uploading") {
+    throw new UploadError(409, `Upload is ${upload.status}`);
+  }
+  if (inFlight.has(upload.id)) {
+    throw new UploadError(409, "Another chunk is still being written");
+  }
+
+  inFlight.add(upload.id);
+  try {
+    const offset = Number(req.headers["upload-offset"]);
+    if (offset !== upload.offset) {
+      throw new UploadError(
+        409,
+        `Upload-Offset ${req.headers["upload-offset"]} does not match ${upload.offset}`,
+      );
+    }
+
+    const chunk = await readChunk(req);
+    if (offset + chunk.length > upload.size) {
+      throw new UploadError(400, "Chunk runs past the end of the file");
+    }
+    verifyChecksum(chunk, req.headers["upload-checksum"] as string | undefined);
+
+    const file = await open(partPath(upload), "r+");
+    try {
+      await file.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await file.close();
+    }
+
+    const updated = await storage.updateUpload(upload.id, {
+      offset: offset + chunk.length,
+    });
+    if (!updated) throw new UploadError(404, "Upload not found");
+    return updated.offset === updated.size ? completeUpload(updated) : updated;
+  } finally {
+    inFlight.delete(upload.id);
+  }
+}
+
+async function completeUpload(upload: Upload): Promise<Upload> {
+  const sourcesDir = path.join(
+    cameraMediaDir(upload.matchId, upload.cameraId),
+    "source",
+  );
+  const target = path.join(sourcesDir, upload.id, safeFilename(upload.filename));
+  await mkdir(path.dirname(target), { recursive: true });
+  await rename(partPath(upload), target);
+
+  await storage.updateMatchCamera(upload.cameraId, {
+    src: mediaUrl(target),
+    manifestSrc: null,
+    proxySrc: null,
+    posterSrc: null,
+    duration: null,
+  });
+  await removeOtherVersions(sourcesDir, upload.id);
+  await startTranscode(upload.matchId, upload.cameraId);
+
+  const completed = await storage.updateUpload(upload.id, {
+    status: "completed",
+  });
+  return completed ?? upload;
+}
+
+export async function cancelUpload(upload: Upload): Promise<void> {
+  if (upload.status !== "uploading") return;
+  await storage.updateUpload(upload.id, { status: "cancelled" });
+  await rm(partPath(upload), { force: true });
+}
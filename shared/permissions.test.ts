@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { canPerform, type MatchAction } from "./permissions";
+import type { MatchRole } from "./schema";
+
+// Every role against every action: what it may do and what it may not
+const ALLOWED: [MatchRole | null, Record<MatchAction, boolean>][] = [
+  [null, { view: false, edit: false, manage: false }],
+  ["viewer", { view: true, edit: false, manage: false }],
+  ["player", { view: true, edit: false, manage: false }],
+  ["coach", { view: true, edit: true, manage: false }],
+  ["owner", { view: true, edit: true, manage: true }],
+];
+
+describe("canPerform", () => {
+  for (const [role, actions] of ALLOWED) {
+    for (const [action, allowed] of Object.entries(actions)) {
+      it(`${allowed ? "lets" : "stops"} ${role ?? "no role"} ${action}`, () => {
+        expect(canPerform(role, action as MatchAction)).toBe(allowed);
+      });
+    }
+  }
+
+  it("treats a missing role as no access", () => {
+    expect(canPerform(undefined, "view")).toBe(false);
+  });
+});
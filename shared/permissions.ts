@@ -0,0 +1,25 @@
+import { matchRoles, type MatchRole } from "./schema";
+
+// What can be done with a match, and the least privileged role allowed to
+// do it. Roles are cumulative: coaches can do everything players and
+// viewers can, owners everything coaches can. Players are the people in the
+// footage; for now they have the same rights as viewers.
+//   view   - watch the match and stream its files
+//   edit   - change cameras and offsets, upload footage, run sync jobs,
+//            edit match details
+//   manage - delete the match, manage who has access
+export type MatchAction = "view" | "edit" | "manage";
+
+const REQUIRED_ROLE: Record<MatchAction, MatchRole> = {
+  view: "viewer",
+  edit: "coach",
+  manage: "owner",
+};
+
+export function canPerform(
+  role: MatchRole | null | undefined,
+  action: MatchAction,
+): boolean {
+  if (!role) return false;
+  return matchRoles.indexOf(role) >= matchRoles.indexOf(REQUIRED_ROLE[action]);
+}
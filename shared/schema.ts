@@ -1,12 +1,45 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  bigint,
+  boolean,
+  doublePrecision,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// How the viewer arranges angles on stage: one large angle beside the
+// thumbnail rail, an equal 2x2 grid, one large angle above three small
+// ones, or two angles side by side for comparison
+export const viewerLayouts = [
+  "single",
+  "grid",
+  "one-plus-three",
+  "side-by-side",
+] as const;
+export type ViewerLayout = (typeof viewerLayouts)[number];
+
+export const userPreferencesSchema = z.object({
+  viewerLayout: z.enum(viewerLayouts).optional(),
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  preferences: jsonb("preferences")
+    .$type<UserPreferences>()
+    .notNull()
+    .default({}),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -16,3 +49,493 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user: never the password hash
+export type PublicUser = Omit<User, "password">;
+
+export const registerUserSchema = insertUserSchema.extend({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[\w.-]+$/, "Use letters, numbers, dots, dashes or underscores"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password must be at most 200 characters"),
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+
+export const matchSurfaces = ["hard", "clay", "grass", "carpet"] as const;
+export type MatchSurface = (typeof matchSurfaces)[number];
+
+// Text the library's full-text search runs over
+export const matchSearchDocument = sql`to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '') || ' ' || coalesce(venue, '') || ' ' || coalesce(tournament, '') || ' ' || coalesce(players::text, ''))`;
+
+export const matches = pgTable(
+  "matches",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    title: text("title").notNull(),
+    description: text("description"),
+    // Public matches can be watched by anyone, signed in or not
+    isPublic: boolean("is_public").notNull().default(false),
+    venue: text("venue"),
+    tournament: text("tournament"),
+    surface: text("surface").$type<MatchSurface>(),
+    players: jsonb("players").$type<string[]>().notNull().default([]),
+    // When the match was played, as opposed to when it was added
+    playedAt: timestamp("played_at"),
+    // Deuce is settled by a single deciding point rather than advantage
+    noAdScoring: boolean("no_ad_scoring").notNull().default(false),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("matches_search_idx").using("gin", matchSearchDocument),
+    index("matches_played_at_idx").on(table.playedAt),
+  ],
+);
+
+export const insertMatchSchema = createInsertSchema(matches, {
+  surface: z.enum(matchSurfaces).nullable().optional(),
+  players: z.array(z.string().trim().min(1)).optional(),
+  playedAt: z.coerce.date().nullable().optional(),
+}).pick({
+  title: true,
+  description: true,
+  isPublic: true,
+  venue: true,
+  tournament: true,
+  surface: true,
+  players: true,
+  playedAt: true,
+  noAdScoring: true,
+});
+
+export type InsertMatch = z.infer<typeof insertMatchSchema>;
+export type Match = typeof matches.$inferSelect;
+
+// Library query string: full-text search, filters and paging
+export const matchSearchSchema = z.object({
+  q: z.string().trim().optional(),
+  player: z.string().trim().optional(),
+  surface: z.enum(matchSurfaces).optional(),
+  // YYYY-MM-DD bounds on the date played, both inclusive. Parsed as UTC
+  // midnight; `to` becomes the following midnight, an exclusive bound.
+  from: z
+    .string()
+    .date()
+    .transform((date) => new Date(date))
+    .optional(),
+  to: z
+    .string()
+    .date()
+    .transform((date) => new Date(Date.parse(date) + 24 * 60 * 60 * 1000))
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(48).default(12),
+});
+
+export type MatchSearch = z.infer<typeof matchSearchSchema>;
+
+// A library entry: the match with a poster frame and length taken from its
+// first camera, once that camera has been transcoded
+export type MatchSummary = Match & {
+  posterSrc: string | null;
+  duration: number | null;
+  cameraCount: number;
+};
+
+export type MatchPage = {
+  matches: MatchSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export const matchCameras = pgTable("match_cameras", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  position: integer("position").notNull().default(0),
+  label: text("label").notNull(),
+  description: text("description"),
+  src: text("src").notNull(),
+  // Seconds into this camera's file at master time 0. Positive when the
+  // camera was started before the master clock, negative when after.
+  offset: doublePrecision("offset").notNull().default(0),
+  // Clock drift relative to the master timeline, in seconds per second
+  // (e.g. 0.0001 means the camera gains 0.1ms every second).
+  driftRate: doublePrecision("drift_rate").notNull().default(0),
+  // How well the last audio auto-sync matched this camera, from 0 to 1.
+  // Null until an auto-sync has run.
+  syncConfidence: doublePrecision("sync_confidence"),
+  // Published by the transcoding pipeline: an HLS master playlist with the
+  // full bitrate ladder, and a small MP4 proxy for previews and analysis.
+  // Null until the camera's file has been transcoded.
+  manifestSrc: text("manifest_src"),
+  proxySrc: text("proxy_src"),
+  // Also from transcoding: a still for the library, and the file's length
+  // in seconds
+  posterSrc: text("poster_src"),
+  duration: doublePrecision("duration"),
+  // Frames per second the camera recorded at, probed when the file is
+  // transcoded or set by hand. Null when unknown.
+  fps: doublePrecision("fps"),
+});
+
+export const insertMatchCameraSchema = createInsertSchema(matchCameras, {
+  fps: (schema) => schema.positive().nullable().optional(),
+}).pick({
+  position: true,
+  label: true,
+  description: true,
+  src: true,
+  offset: true,
+  driftRate: true,
+  fps: true,
+});
+
+export type InsertMatchCamera = z.infer<typeof insertMatchCameraSchema>;
+export type MatchCamera = typeof matchCameras.$inferSelect;
+// Server-side updates may also touch fields clients cannot set directly
+export type UpdateMatchCamera = Partial<Omit<MatchCamera, "id" | "matchId">>;
+
+// A match can be created together with its cameras in a single request.
+export const createMatchSchema = insertMatchSchema.extend({
+  cameras: z.array(insertMatchCameraSchema).default([]),
+});
+
+export type CreateMatch = z.infer<typeof createMatchSchema>;
+// `role` is the requesting user's role on the match, which decides what
+// they may do with it (see shared/permissions.ts). Anyone watching a public
+// match without a role of their own is a viewer.
+export type MatchWithCameras = Match & {
+  cameras: MatchCamera[];
+  role: MatchRole;
+};
+
+// Ordered from least to most privileged
+export const matchRoles = ["viewer", "player", "coach", "owner"] as const;
+export type MatchRole = (typeof matchRoles)[number];
+
+export const matchMembers = pgTable(
+  "match_members",
+  {
+    matchId: varchar("match_id")
+      .notNull()
+      .references(() => matches.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: text("role").$type<MatchRole>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.matchId, table.userId] })],
+);
+
+export type MatchMember = typeof matchMembers.$inferSelect;
+export type MatchMemberWithUser = MatchMember & { username: string };
+
+// Members are added by username
+export const upsertMatchMemberSchema = z.object({
+  username: z.string().trim().min(1),
+  role: z.enum(matchRoles),
+});
+
+export type UpsertMatchMember = z.infer<typeof upsertMatchMemberSchema>;
+
+// A link that lets anyone holding its token watch part of a match without
+// an account. The token is an HMAC-signed copy of these fields (see
+// server/shares.ts); revoking the share invalidates it early.
+export const shares = pgTable("shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Master-clock window the viewer is held to; null ends mean the start or
+  // end of the match
+  startTime: doublePrecision("start_time"),
+  endTime: doublePrecision("end_time"),
+  // Cameras the link may show, the first opening on stage. Null for all.
+  cameraIds: jsonb("camera_ids").$type<string[]>(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Share = typeof shares.$inferSelect;
+export type InsertShare = Pick<
+  Share,
+  "matchId" | "createdBy" | "startTime" | "endTime" | "cameraIds" | "expiresAt"
+>;
+// What the API returns for a share: the record and its link token
+export type ShareWithToken = Share & { token: string };
+
+export const createShareSchema = z
+  .object({
+    matchId: z.string().min(1),
+    startTime: z.number().min(0).nullable().default(null),
+    endTime: z.number().positive().nullable().default(null),
+    cameraIds: z.array(z.string().min(1)).min(1).nullable().default(null),
+    // Up to 90 days, a week by default
+    expiresInHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(90 * 24)
+      .default(7 * 24),
+  })
+  .refine(
+    ({ startTime, endTime }) =>
+      startTime === null || endTime === null || endTime > startTime,
+    { message: "endTime must be after startTime", path: ["endTime"] },
+  );
+
+export type CreateShare = z.infer<typeof createShareSchema>;
+
+// A match as seen through a share link: only the shared cameras, and the
+// window the viewer is held to
+export type SharedMatch = MatchWithCameras & {
+  share: Pick<Share, "startTime" | "endTime" | "expiresAt">;
+};
+
+// A named stretch of a match's master timeline, e.g. a rally to rewatch.
+// The viewer loops it across every angle.
+export const regions = pgTable("regions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  startTime: doublePrecision("start_time").notNull(),
+  endTime: doublePrecision("end_time").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Region = typeof regions.$inferSelect;
+export type InsertRegion = Pick<
+  Region,
+  "matchId" | "createdBy" | "name" | "startTime" | "endTime"
+>;
+
+export const createRegionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    startTime: z.number().min(0),
+    endTime: z.number().positive(),
+  })
+  .refine(({ startTime, endTime }) => endTime > startTime, {
+    message: "endTime must be after startTime",
+    path: ["endTime"],
+  });
+
+export type CreateRegion = z.infer<typeof createRegionSchema>;
+
+// The two sides of a match, as indexes into its players: side 0 is
+// players[0] and side 1 players[1]
+export const playerSides = [0, 1] as const;
+export type PlayerSide = (typeof playerSides)[number];
+const playerSideSchema = z.union([z.literal(0), z.literal(1)]);
+
+export const pointShotTypes = [
+  "ace",
+  "double-fault",
+  "winner",
+  "forced-error",
+  "unforced-error",
+] as const;
+export type PointShotType = (typeof pointShotTypes)[number];
+
+// One point of a match: the rally's span on the master timeline, where it
+// falls in the match (sets and games count from 1, games within their
+// set), who served, who won and the shot that ended it
+export const points = pgTable("points", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  startTime: doublePrecision("start_time").notNull(),
+  endTime: doublePrecision("end_time").notNull(),
+  setNumber: integer("set_number").notNull(),
+  gameNumber: integer("game_number").notNull(),
+  server: integer("server").$type<PlayerSide>().notNull(),
+  winner: integer("winner").$type<PlayerSide>().notNull(),
+  shotType: text("shot_type").$type<PointShotType>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Point = typeof points.$inferSelect;
+export type InsertPoint = Omit<Point, "id" | "createdAt">;
+
+const pointFields = {
+  startTime: z.number().min(0),
+  endTime: z.number().positive(),
+  setNumber: z.number().int().min(1),
+  gameNumber: z.number().int().min(1),
+  server: playerSideSchema,
+  winner: playerSideSchema,
+  shotType: z.enum(pointShotTypes).nullable().default(null),
+};
+
+export const createPointSchema = z
+  .object(pointFields)
+  .refine(({ startTime, endTime }) => endTime > startTime, {
+    message: "endTime must be after startTime",
+    path: ["endTime"],
+  });
+
+export type CreatePoint = z.infer<typeof createPointSchema>;
+
+// Any of a point's fields; the route checks the times against the stored
+// point
+export const updatePointSchema = z.object(pointFields).partial().strict();
+
+export type UpdatePoint = z.infer<typeof updatePointSchema>;
+
+export const trackSubjects = ["ball", "player"] as const;
+export type TrackSubject = (typeof trackSubjects)[number];
+
+// Enough for a three-hour match tracked at 25 boxes a second, with room over
+export const MAX_TRACK_SAMPLES = 300_000;
+
+// Where a tracked subject is at one moment: its bounding box in fractions
+// of the camera's frame (x and y the top left corner) at time t, in
+// seconds into that camera's file
+export const trackSampleSchema = z.object({
+  t: z.number().min(0),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  w: z.number().positive().max(1),
+  h: z.number().positive().max(1),
+});
+
+export type TrackSample = z.infer<typeof trackSampleSchema>;
+
+// Tracking data for the ball or one player, as seen by one camera. The
+// viewer's follow mode steers the zoomed crop of that camera along it.
+export const tracks = pgTable("tracks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  cameraId: varchar("camera_id")
+    .notNull()
+    .references(() => matchCameras.id, { onDelete: "cascade" }),
+  subject: text("subject").$type<TrackSubject>().notNull(),
+  label: text("label").notNull(),
+  // Ordered by t
+  samples: jsonb("samples").$type<TrackSample[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Track = typeof tracks.$inferSelect;
+export type InsertTrack = Pick<
+  Track,
+  "matchId" | "cameraId" | "subject" | "label" | "samples"
+>;
+// A track without its samples, as listed for a match. startTime and
+// endTime are the first and last sample times in the camera's file.
+export type TrackSummary = Omit<Track, "samples"> & {
+  sampleCount: number;
+  startTime: number;
+  endTime: number;
+};
+
+export const importTrackSchema = z.object({
+  cameraId: z.string().min(1),
+  subject: z.enum(trackSubjects),
+  label: z.string().trim().min(1).max(100),
+  samples: z.array(trackSampleSchema).min(2).max(MAX_TRACK_SAMPLES),
+});
+
+export type ImportTrack = z.infer<typeof importTrackSchema>;
+
+export const jobStatuses = [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+export type SyncJobResult = {
+  cameraId: string;
+  offset: number;
+  confidence: number;
+};
+
+// Audio auto-sync runs per match; the latest job is what the viewer polls.
+export const syncJobs = pgTable("sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  status: text("status").$type<JobStatus>().notNull().default("pending"),
+  progress: doublePrecision("progress").notNull().default(0),
+  results: jsonb("results").$type<SyncJobResult[]>().notNull().default([]),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SyncJob = typeof syncJobs.$inferSelect;
+
+// Transcoding runs per camera; jobs are queued and processed one at a time.
+export const transcodeJobs = pgTable("transcode_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  cameraId: varchar("camera_id")
+    .notNull()
+    .references(() => matchCameras.id, { onDelete: "cascade" }),
+  status: text("status").$type<JobStatus>().notNull().default("pending"),
+  progress: doublePrecision("progress").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type TranscodeJob = typeof transcodeJobs.$inferSelect;
+
+export const uploadStatuses = ["uploading", "completed", "cancelled"] as const;
+export type UploadStatus = (typeof uploadStatuses)[number];
+
+// A resumable upload of a camera's source file. Chunks are written at
+// `offset`, the number of bytes received so far; once it reaches `size`
+// the file becomes the camera's src and is queued for transcoding.
+export const uploads = pgTable("uploads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matchId: varchar("match_id")
+    .notNull()
+    .references(() => matches.id, { onDelete: "cascade" }),
+  cameraId: varchar("camera_id")
+    .notNull()
+    .references(() => matchCameras.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  offset: bigint("offset", { mode: "number" }).notNull().default(0),
+  status: text("status").$type<UploadStatus>().notNull().default("uploading"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertUploadSchema = createInsertSchema(uploads, {
+  filename: z.string().min(1).max(255),
+  size: z.number().int().positive(),
+}).pick({
+  filename: true,
+  size: true,
+});
+
+export type InsertUpload = z.infer<typeof insertUploadSchema>;
+export type Upload = typeof uploads.$inferSelect;